@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  announce,
+  announcerAttribute,
+  getFocusedSelector,
+  resolveScrollBehavior,
+} from './a11y';
+import { createScrollRestorer, ScrollRestorer } from './restorer';
+import { createScrollRestoration } from './registry';
+import { createMemoryStorage } from './storage';
+import { defaultGetCurrentLocation } from './navigation';
+import { NavigationListener } from './shapes';
+
+// Wait for the animation frames preceding restores
+const waitForFrames = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+describe('resolveScrollBehavior', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should jump instead of scrolling smoothly when motion is reduced', () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({
+      matches: query === '(prefers-reduced-motion: reduce)',
+    }));
+
+    expect(resolveScrollBehavior('smooth')).toBe('auto');
+    expect(resolveScrollBehavior('instant')).toBe('instant');
+  });
+
+  it('should keep smooth scrolling otherwise', () => {
+    expect(resolveScrollBehavior('smooth')).toBe('smooth');
+  });
+});
+
+describe('announce', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should update a single polite live region', () => {
+    announce('Products');
+    announce('Products');
+
+    const regions = document.querySelectorAll(`[${announcerAttribute}]`);
+    expect(regions).toHaveLength(1);
+    expect(regions[0]?.getAttribute('aria-live')).toBe('polite');
+    expect(regions[0]?.textContent).toBe('Products\u00a0');
+  });
+});
+
+describe('getFocusedSelector', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should not warn about focused elements identified by their position', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    document.body.innerHTML = '<nav><a href="/docs">Docs</a></nav>';
+    document.querySelector('a')?.focus();
+
+    const selector = getFocusedSelector();
+
+    expect(document.querySelector(selector as string)?.textContent).toBe(
+      'Docs'
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('focus management', () => {
+  let restorer: ScrollRestorer;
+  let navigate: Parameters<NavigationListener>[0];
+
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<main><h1>Page</h1></main><a id="details" href="/details">Details</a>';
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+    restorer = createScrollRestorer({
+      instance: createScrollRestoration({ storage: createMemoryStorage() }),
+      getKey: () => 'page',
+      navigationListener: (onNavigate) => {
+        navigate = onNavigate;
+        return () => undefined;
+      },
+      manageFocus: true,
+      announceNavigation: (location) => `Navigated to ${location.pathname}`,
+    });
+    restorer.start();
+  });
+
+  afterEach(() => {
+    restorer.stop();
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should focus the main landmark and announce fresh navigations', async () => {
+    navigate(defaultGetCurrentLocation(), 'push');
+    await waitForFrames();
+
+    const main = document.querySelector('main');
+    expect(document.activeElement).toBe(main);
+    expect(main?.getAttribute('tabindex')).toBe('-1');
+    expect(document.querySelector(`[${announcerAttribute}]`)?.textContent).toBe(
+      'Navigated to /'
+    );
+  });
+
+  it('should focus the element focused when leaving on back navigations', async () => {
+    const link = document.getElementById('details') as HTMLElement;
+    link.focus();
+    document.dispatchEvent(new Event('scroll'));
+    restorer.save();
+    link.blur();
+
+    navigate(defaultGetCurrentLocation(), 'pop');
+    await waitForFrames();
+
+    expect(document.activeElement).toBe(link);
+  });
+
+  it('should save the focused element when the window never scrolled', async () => {
+    const link = document.getElementById('details') as HTMLElement;
+    link.focus();
+    restorer.save();
+    link.blur();
+
+    navigate(defaultGetCurrentLocation(), 'pop');
+    await waitForFrames();
+
+    expect(document.activeElement).toBe(link);
+  });
+
+  it('should leave focus alone on manual restores', () => {
+    restorer.restore();
+
+    expect(document.activeElement).toBe(document.body);
+  });
+});
@@ -0,0 +1,84 @@
+import { ElementIdentityOptions } from './shapes';
+import { getCssSelector } from './helpers';
+import { getStableSelector } from './identity';
+
+/**
+ * Element focused by fresh navigations when no focusSelector is given
+ */
+export const defaultFocusSelector = 'main, [role="main"]';
+
+/**
+ * Attribute marking the live region announcing navigations
+ */
+export const announcerAttribute = 'data-scroll-restoration-announcer';
+
+/**
+ * Whether the user asked the system to minimize motion
+ */
+export const prefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' &&
+  typeof window.matchMedia === 'function' &&
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+/**
+ * Scroll behavior honoring prefers-reduced-motion, smooth scrolls jump instead
+ */
+export const resolveScrollBehavior = (
+  behavior?: ScrollToOptions['behavior']
+): ScrollToOptions['behavior'] =>
+  behavior === 'smooth' && prefersReducedMotion() ? 'auto' : behavior;
+
+/**
+ * Selector of the focused element, undefined when nothing is focused
+ * Focused links and buttons rarely have stable attributes, their structural
+ * path is used without the warning meant for scrollers
+ */
+export const getFocusedSelector = (
+  options?: ElementIdentityOptions
+): string | undefined => {
+  const element = document.activeElement;
+  if (!element || element === document.body) return undefined;
+  if (element === document.documentElement) return undefined;
+
+  return getStableSelector(element, options) || getCssSelector(element);
+};
+
+/**
+ * Focus an element without scrolling to it, elements that are not focusable,
+ * like landmarks, become programmatically focusable. Returns whether it worked
+ */
+export const focusElement = (element: Element | null): boolean => {
+  if (!(element instanceof HTMLElement) && !(element instanceof SVGElement)) {
+    return false;
+  }
+
+  if (element.tabIndex < 0 && !element.hasAttribute('tabindex')) {
+    element.setAttribute('tabindex', '-1');
+  }
+  element.focus({ preventScroll: true });
+
+  return document.activeElement === element;
+};
+
+/**
+ * Announce a message through a polite live region, created on first use
+ */
+export const announce = (message: string) => {
+  let region = document.querySelector<HTMLElement>(`[${announcerAttribute}]`);
+
+  if (!region) {
+    region = document.createElement('div');
+    region.setAttribute(announcerAttribute, '');
+    region.setAttribute('role', 'status');
+    region.setAttribute('aria-live', 'polite');
+    region.setAttribute('aria-atomic', 'true');
+    // Visually hidden, still read by screen readers
+    region.style.cssText =
+      'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;border:0';
+    document.body.append(region);
+  }
+
+  // Repeated messages are only read when the content changes
+  region.textContent =
+    region.textContent === message ? `${message}\u00a0` : message;
+};
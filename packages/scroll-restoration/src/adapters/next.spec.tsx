@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, waitFor } from '@testing-library/react';
+import * as React from 'react';
+import { ScrollRestoration, createNextPagesRouterAdapter } from './next';
+import {
+  createScrollRestoration,
+  ScrollRestorationProvider,
+} from '../instance';
+import { createMemoryStorage } from '../storage';
+
+// In-memory App Router: the URL changes while the new route commits
+const appRouter = vi.hoisted(() => {
+  const listeners = new Set<() => void>();
+  let url = '/';
+
+  // Back/forward navigations sync the router with the restored URL
+  window.addEventListener('popstate', () => {
+    url = window.location.pathname + window.location.search;
+    listeners.forEach((listener) => listener());
+  });
+
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getUrl: () => url,
+    push: (next: string) => {
+      window.history.pushState({ __NA: true }, '', next);
+      url = next;
+      listeners.forEach((listener) => listener());
+    },
+    back: () =>
+      new Promise<void>((resolve) => {
+        window.addEventListener('popstate', () => resolve(), { once: true });
+        window.history.back();
+      }),
+  };
+});
+
+vi.mock('next/navigation', () => {
+  const useUrl = () =>
+    React.useSyncExternalStore(appRouter.subscribe, appRouter.getUrl);
+  return {
+    usePathname: () => new URL(useUrl(), 'http://n').pathname,
+    useSearchParams: () => new URL(useUrl(), 'http://n').searchParams,
+  };
+});
+
+// In-memory Pages Router emitting the same events as next/router
+const createPagesRouter = () => {
+  const handlers = new Map<string, Set<(...args: unknown[]) => void>>();
+  const emit = (type: string) => handlers.get(type)?.forEach((fn) => fn());
+  const router = {
+    asPath: '/',
+    events: {
+      on: (type: string, fn: (...args: unknown[]) => void) => {
+        handlers.set(type, (handlers.get(type) || new Set()).add(fn));
+      },
+      off: (type: string, fn: (...args: unknown[]) => void) => {
+        handlers.get(type)?.delete(fn);
+      },
+      emit,
+    },
+    push: (asPath: string, key: string) => {
+      emit('routeChangeStart');
+      emit('beforeHistoryChange');
+      window.history.pushState({ as: asPath, key }, '', asPath);
+      router.asPath = asPath;
+      emit('routeChangeComplete');
+    },
+  };
+  return router;
+};
+
+// The singleton router is not used, tests pass their own router
+vi.mock('next/router', () => ({ default: null }));
+
+describe('Next.js App Router adapter', () => {
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    window.history.replaceState(null, '', '/');
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save before the URL changes and restore on back', async () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={(location) => location.pathname} />
+      </ScrollRestorationProvider>
+    );
+
+    scrollY = 640;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+      appRouter.push('/products?page=2');
+    });
+
+    expect(instance.cache.state.cached['/___window']).toMatchObject({
+      scrollY: 640,
+    });
+
+    await act(() => appRouter.back());
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 640,
+        left: 0,
+        behavior: undefined,
+      })
+    );
+  });
+
+  it('should scroll pushed routes to the top', async () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    instance.cache.set({
+      cached: { '/products___window': { scrollX: 0, scrollY: 640 } },
+      next: {},
+    });
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={(location) => location.pathname} />
+      </ScrollRestorationProvider>
+    );
+
+    act(() => {
+      appRouter.push('/products');
+    });
+
+    await waitFor(() => expect(window.scrollTo).toHaveBeenCalledWith(0, 0));
+    expect(window.scrollTo).not.toHaveBeenCalledWith(
+      expect.objectContaining({ top: 640 })
+    );
+  });
+
+  it('should offset same-page hash jumps', async () => {
+    document.body.innerHTML = '<h2 id="faq">FAQ</h2>';
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue({
+      top: 900,
+    } as DOMRect);
+    render(<ScrollRestoration hashOffset={() => 100} />);
+
+    window.location.hash = 'faq';
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 800,
+        behavior: undefined,
+      })
+    );
+  });
+});
+
+describe('Next.js Pages Router adapter', () => {
+  beforeEach(() => {
+    window.history.replaceState({ as: '/', key: 'home' }, '', '/');
+  });
+
+  it('should read asPath and the history key', () => {
+    const router = createPagesRouter();
+    router.asPath = '/posts/1?ref=feed#comments';
+
+    expect(createNextPagesRouterAdapter(router).getCurrentLocation()).toEqual({
+      href: '/posts/1?ref=feed#comments',
+      pathname: '/posts/1',
+      search: '?ref=feed',
+      hash: '#comments',
+      state: { key: 'home' },
+    });
+  });
+
+  it('should save before the history changes and report completion', () => {
+    const router = createPagesRouter();
+    const calls: string[] = [];
+    const onSave = () => calls.push(`save ${window.location.pathname}`);
+
+    const cleanup = createNextPagesRouterAdapter(router).navigationListener(
+      (prevLocation) => calls.push(`navigate from ${prevLocation.href}`),
+      onSave
+    );
+    router.push('/posts/1', 'post');
+
+    expect(calls).toEqual(['save /', 'navigate from /']);
+
+    cleanup();
+  });
+
+  it('should report back/forward navigations as pops', () => {
+    const router = createPagesRouter();
+    const onNavigate = vi.fn();
+    const cleanup = createNextPagesRouterAdapter(router).navigationListener(
+      onNavigate,
+      vi.fn()
+    );
+
+    router.push('/posts/1', 'post');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    router.events.emit('routeChangeComplete');
+
+    expect(onNavigate.mock.calls.map(([, type]) => type)).toEqual([
+      'push',
+      'pop',
+    ]);
+    cleanup();
+  });
+});
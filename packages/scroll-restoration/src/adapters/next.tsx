@@ -0,0 +1,165 @@
+'use client';
+
+import * as React from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import Router, { type NextRouter } from 'next/router';
+import {
+  Location,
+  NavigationListener,
+  NavigationType,
+  RouterAdapter,
+  ScrollRestorationOptions,
+} from '../shapes';
+import { useScrollRestoration } from '../scroll-restoration';
+import {
+  defaultGetCurrentLocation,
+  historyPatchingNavigationListener,
+} from '../navigation';
+
+export { ScrollRestorationScript } from '../script';
+
+export type NextScrollRestorationOptions = Omit<
+  ScrollRestorationOptions,
+  keyof RouterAdapter
+>;
+
+/**
+ * Hook for scroll restoration with the Next.js App Router
+ * Must be rendered below a Suspense boundary as it reads the search params
+ */
+export function useNextScrollRestoration(
+  options?: NextScrollRestorationOptions
+) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const subscribers = React.useRef(
+    new Set<Parameters<NavigationListener>[0]>()
+  );
+  const lastLocation = React.useRef<Location | null>(null);
+  const lastType = React.useRef<NavigationType | undefined>(undefined);
+
+  const navigationListener: NavigationListener = React.useCallback(
+    (onNavigate, onBeforeNavigate) => {
+      subscribers.current.add(onNavigate);
+
+      // Next updates the URL while committing the new route, save before it
+      // does and remember how the URL changed
+      const cleanup = historyPatchingNavigationListener((_location, type) => {
+        lastType.current = type;
+      }, onBeforeNavigate);
+
+      return () => {
+        subscribers.current.delete(onNavigate);
+        cleanup();
+      };
+    },
+    []
+  );
+
+  useScrollRestoration({
+    ...options,
+    getCurrentLocation: defaultGetCurrentLocation,
+    navigationListener,
+  });
+
+  // Report navigations once the new route has been committed
+  React.useEffect(() => {
+    const prevLocation = lastLocation.current;
+    const currentLocation = defaultGetCurrentLocation();
+    lastLocation.current = currentLocation;
+
+    if (prevLocation && prevLocation.href !== currentLocation.href) {
+      subscribers.current.forEach((onNavigate) =>
+        onNavigate(prevLocation, lastType.current)
+      );
+    }
+  }, [pathname, searchParams]);
+}
+
+/**
+ * ScrollRestoration component for the Next.js App Router
+ */
+export function ScrollRestoration(props: NextScrollRestorationOptions) {
+  useNextScrollRestoration(props);
+  return null;
+}
+
+type PagesRouter = Pick<NextRouter, 'asPath' | 'events'>;
+
+// Map the Pages Router location, asPath holds the actual URL
+const toPagesLocation = (router: PagesRouter): Location => {
+  const url = new URL(router.asPath, 'http://n');
+
+  return {
+    href: router.asPath,
+    pathname: url.pathname,
+    search: url.search,
+    hash: url.hash,
+    state: {
+      key:
+        typeof window !== 'undefined' ? window.history.state?.key : undefined,
+    },
+  };
+};
+
+/**
+ * Location source and navigation listener for the Next.js Pages Router
+ * Defaults to the singleton router, whose asPath is always current
+ */
+export function createNextPagesRouterAdapter(
+  router: PagesRouter = Router
+): RouterAdapter {
+  return {
+    getCurrentLocation: () => toPagesLocation(router),
+    navigationListener: (onNavigate, onBeforeNavigate) => {
+      let lastLocation = toPagesLocation(router);
+      let popped = false;
+
+      // Back/forward navigations go through popstate, everything else is a push
+      const handlePopState = () => {
+        popped = true;
+      };
+
+      // The old page is still rendered right before the URL changes
+      const handleBeforeChange = () => {
+        onBeforeNavigate();
+      };
+
+      const handleChangeComplete = () => {
+        const prevLocation = lastLocation;
+        lastLocation = toPagesLocation(router);
+        onNavigate(prevLocation, popped ? 'pop' : 'push');
+        popped = false;
+      };
+
+      window.addEventListener('popstate', handlePopState);
+      router.events.on('beforeHistoryChange', handleBeforeChange);
+      router.events.on('hashChangeStart', handleBeforeChange);
+      router.events.on('routeChangeComplete', handleChangeComplete);
+      router.events.on('hashChangeComplete', handleChangeComplete);
+
+      return () => {
+        window.removeEventListener('popstate', handlePopState);
+        router.events.off('beforeHistoryChange', handleBeforeChange);
+        router.events.off('hashChangeStart', handleBeforeChange);
+        router.events.off('routeChangeComplete', handleChangeComplete);
+        router.events.off('hashChangeComplete', handleChangeComplete);
+      };
+    },
+  };
+}
+
+/**
+ * Hook for scroll restoration with the Next.js Pages Router
+ */
+export function useNextPagesScrollRestoration({
+  router,
+  ...options
+}: NextScrollRestorationOptions & { router?: PagesRouter } = {}) {
+  const adapter = React.useMemo(
+    () => createNextPagesRouterAdapter(router),
+    [router]
+  );
+
+  useScrollRestoration({ ...options, ...adapter });
+}
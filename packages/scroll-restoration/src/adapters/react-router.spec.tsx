@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, waitFor } from '@testing-library/react';
+import { createMemoryRouter, RouterProvider } from 'react-router';
+import { createReactRouterAdapter, ScrollRestoration } from './react-router';
+import {
+  createScrollRestoration,
+  ScrollRestorationProvider,
+} from '../instance';
+import { createMemoryStorage } from '../storage';
+
+const createRouter = () =>
+  createMemoryRouter(
+    [
+      { path: '/', element: <h1>Home</h1> },
+      {
+        path: '/details',
+        element: (
+          <>
+            <h1>Details</h1>
+            <h2 id="reviews">Reviews</h2>
+          </>
+        ),
+      },
+    ],
+    { initialEntries: ['/'] }
+  );
+
+describe('React Router adapter', () => {
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the router location with its history key', () => {
+    const router = createRouter();
+    const location = createReactRouterAdapter(router).getCurrentLocation();
+
+    expect(location).toEqual({
+      href: '/',
+      pathname: '/',
+      search: '',
+      hash: '',
+      state: { key: router.state.location.key },
+    });
+  });
+
+  it('should report navigations with the previous location', async () => {
+    const router = createRouter();
+    const onNavigate = vi.fn();
+    const cleanup = createReactRouterAdapter(router).navigationListener(
+      onNavigate,
+      vi.fn()
+    );
+    const homeKey = router.state.location.key;
+
+    await router.navigate('/details?tab=1#top');
+
+    expect(onNavigate).toHaveBeenCalledTimes(1);
+    expect(onNavigate.mock.calls[0][0].state).toEqual({ key: homeKey });
+    expect(onNavigate.mock.calls[0][1]).toBe('push');
+    cleanup();
+  });
+
+  it('should save before navigating and restore on back', async () => {
+    const router = createRouter();
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration router={router} />
+        <RouterProvider router={router} />
+      </ScrollRestorationProvider>
+    );
+    const homeKey = router.state.location.key;
+
+    scrollY = 480;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+    });
+    await act(() => router.navigate('/details'));
+
+    expect(instance.cache.state.cached[`${homeKey}___window`]).toMatchObject({
+      scrollY: 480,
+    });
+
+    await act(() => router.navigate(-1));
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 480,
+        left: 0,
+        behavior: undefined,
+      })
+    );
+  });
+
+  it('should scroll new navigations to the hash target', async () => {
+    const router = createRouter();
+    render(
+      <ScrollRestorationProvider
+        instance={createScrollRestoration({ storage: createMemoryStorage() })}
+      >
+        <ScrollRestoration router={router} hashOffset={64} />
+        <RouterProvider router={router} />
+      </ScrollRestorationProvider>
+    );
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue({
+      top: 500,
+    } as DOMRect);
+
+    await act(() => router.navigate('/details#reviews'));
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 436,
+        behavior: undefined,
+      })
+    );
+  });
+
+  it('should retry restoring until the content is tall enough', async () => {
+    const router = createRouter();
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration router={router} restoreMode="retry" />
+        <RouterProvider router={router} />
+      </ScrollRestorationProvider>
+    );
+    const homeKey = router.state.location.key;
+    instance.cache.set((c) => ({
+      ...c,
+      cached: { [`${homeKey}___window`]: { scrollX: 0, scrollY: 2000 } },
+    }));
+    let scrollHeight = 0;
+    vi.spyOn(
+      document.documentElement,
+      'scrollHeight',
+      'get'
+    ).mockImplementation(() => scrollHeight);
+
+    await act(() => router.navigate('/details'));
+    await act(() => router.navigate(-1));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(window.scrollTo).not.toHaveBeenCalledWith(
+      expect.objectContaining({ top: 2000 })
+    );
+
+    // Data arrives and makes the page tall enough
+    scrollHeight = 3000;
+    document.body.append(document.createElement('ul'));
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 2000,
+        left: 0,
+        behavior: undefined,
+      })
+    );
+  });
+});
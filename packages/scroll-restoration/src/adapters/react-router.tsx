@@ -0,0 +1,78 @@
+import * as React from 'react';
+import type { DataRouter, Location as RouterLocation } from 'react-router';
+import {
+  Location,
+  NavigationType,
+  RouterAdapter,
+  ScrollRestorationOptions,
+} from '../shapes';
+import { useScrollRestoration } from '../scroll-restoration';
+
+export type ReactRouterScrollRestorationOptions = Omit<
+  ScrollRestorationOptions,
+  keyof RouterAdapter
+>;
+
+// Map a React Router location, its key identifies the history entry
+const toLocation = (
+  router: DataRouter,
+  location: RouterLocation
+): Location => ({
+  href: router.createHref(location),
+  pathname: location.pathname,
+  search: location.search,
+  hash: location.hash,
+  state: { key: location.key },
+});
+
+/**
+ * Location source and navigation listener for a React Router data router
+ */
+export function createReactRouterAdapter(router: DataRouter): RouterAdapter {
+  return {
+    getCurrentLocation: () => toLocation(router, router.state.location),
+    navigationListener: (onNavigate, onBeforeNavigate) => {
+      let lastLocation = router.state.location;
+
+      return router.subscribe((state) => {
+        if (state.location.key === lastLocation.key) return;
+
+        // The router state changes before React renders the new route
+        onBeforeNavigate();
+
+        const prevLocation = lastLocation;
+        lastLocation = state.location;
+        onNavigate(
+          toLocation(router, prevLocation),
+          state.historyAction.toLowerCase() as NavigationType
+        );
+      });
+    },
+  };
+}
+
+/**
+ * Hook for scroll restoration with a React Router data router
+ */
+export function useReactRouterScrollRestoration(
+  router: DataRouter,
+  options?: ReactRouterScrollRestorationOptions
+) {
+  const adapter = React.useMemo(
+    () => createReactRouterAdapter(router),
+    [router]
+  );
+
+  useScrollRestoration({ ...options, ...adapter });
+}
+
+/**
+ * ScrollRestoration component for React Router data routers
+ */
+export function ScrollRestoration({
+  router,
+  ...options
+}: ReactRouterScrollRestorationOptions & { router: DataRouter }) {
+  useReactRouterScrollRestoration(router, options);
+  return null;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { scrollRestoration } from './svelte';
+import { createScrollRestoration } from '../registry';
+import { createMemoryStorage } from '../storage';
+
+describe('scrollRestoration action', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should follow updated options and stop on destroy', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    const removeEventListener = vi.spyOn(document, 'removeEventListener');
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(180);
+
+    const action = scrollRestoration(document.body, {
+      instance,
+      getKey: () => 'first',
+      navigationListener: () => () => undefined,
+    });
+    action.update({ instance, getKey: () => 'second' });
+    document.dispatchEvent(new Event('scroll'));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(instance.cache.state.cached['second___window']).toMatchObject({
+      scrollY: 180,
+    });
+
+    action.destroy();
+    expect(removeEventListener).toHaveBeenCalledWith(
+      'scroll',
+      expect.any(Function),
+      true
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { createScrollRestorer, ScrollRestorerOptions } from '../restorer';
+
+/**
+ * Svelte action restoring scroll positions while its element is mounted,
+ * use it once on the root element of the layout
+ */
+export function scrollRestoration(
+  _node: Element,
+  options?: ScrollRestorerOptions
+) {
+  const restorer = createScrollRestorer(options);
+  restorer.start();
+
+  return {
+    update: (nextOptions?: ScrollRestorerOptions) => {
+      restorer.setOptions({ ...nextOptions, instance: restorer.instance });
+    },
+    destroy: restorer.stop,
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import {
+  createMemoryHistory,
+  createRootRoute,
+  createRoute,
+  createRouter,
+  Outlet,
+  RouterProvider,
+} from '@tanstack/react-router';
+import {
+  createTanStackRouterAdapter,
+  ScrollRestoration,
+} from './tanstack-router';
+import {
+  createScrollRestoration,
+  ScrollRestorationProvider,
+} from '../instance';
+import { createMemoryStorage } from '../storage';
+
+const createTestRouter = () => {
+  const rootRoute = createRootRoute({ component: () => <Outlet /> });
+  const routeTree = rootRoute.addChildren([
+    createRoute({
+      getParentRoute: () => rootRoute,
+      path: '/',
+      component: () => <h1>Home</h1>,
+    }),
+    createRoute({
+      getParentRoute: () => rootRoute,
+      path: '/details',
+      component: () => <h1>Details</h1>,
+    }),
+  ]);
+
+  return createRouter({
+    routeTree,
+    history: createMemoryHistory({ initialEntries: ['/'] }),
+  });
+};
+
+describe('TanStack Router adapter', () => {
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the router location with its history key', async () => {
+    const router = createTestRouter();
+    await router.load();
+
+    await router.navigate({ to: '/details', search: { tab: 1 }, hash: 'top' });
+    const location = createTanStackRouterAdapter(router).getCurrentLocation();
+
+    expect(location).toMatchObject({
+      pathname: '/details',
+      search: '?tab=1',
+      hash: '#top',
+      state: { key: router.state.location.state.__TSR_key },
+    });
+    expect(location.state?.key).toBeTruthy();
+  });
+
+  it('should save before navigating and restore on back', async () => {
+    const router = createTestRouter();
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration router={router} />
+        <RouterProvider router={router} />
+      </ScrollRestorationProvider>
+    );
+    await screen.findByText('Home');
+    const homeKey = router.state.location.state.__TSR_key;
+
+    scrollY = 320;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+    });
+    await act(() => router.navigate({ to: '/details' }));
+    await screen.findByText('Details');
+
+    expect(instance.cache.state.cached[`${homeKey}___window`]).toMatchObject({
+      scrollY: 320,
+    });
+
+    act(() => router.history.back());
+    await screen.findByText('Home');
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 320,
+        left: 0,
+        behavior: undefined,
+      })
+    );
+  });
+});
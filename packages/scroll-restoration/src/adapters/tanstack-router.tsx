@@ -0,0 +1,95 @@
+import * as React from 'react';
+import type { AnyRouter, ParsedLocation } from '@tanstack/react-router';
+import {
+  Location,
+  NavigationType,
+  RouterAdapter,
+  ScrollRestorationOptions,
+} from '../shapes';
+import { useScrollRestoration } from '../scroll-restoration';
+
+export type TanStackRouterScrollRestorationOptions = Omit<
+  ScrollRestorationOptions,
+  keyof RouterAdapter
+>;
+
+// Map a TanStack Router location, its history key identifies the entry
+const toLocation = (location: ParsedLocation): Location => ({
+  href: location.href,
+  pathname: location.pathname,
+  search: location.searchStr,
+  hash: location.hash ? `#${location.hash}` : '',
+  state: { key: location.state.__TSR_key || location.state.key },
+});
+
+// Map a history action, traversals count as back/forward navigations
+const toNavigationType = (action: string): NavigationType => {
+  if (action === 'PUSH') return 'push';
+  if (action === 'REPLACE') return 'replace';
+  return 'pop';
+};
+
+/**
+ * Location source and navigation listener for a TanStack Router instance
+ */
+export function createTanStackRouterAdapter(router: AnyRouter): RouterAdapter {
+  return {
+    getCurrentLocation: () => toLocation(router.state.location),
+    navigationListener: (onNavigate, onBeforeNavigate) => {
+      let lastType: NavigationType | undefined;
+
+      // The history notifies before the router starts loading
+      const unsubscribeHistory = router.history.subscribe(
+        ({ action }: { action: { type: string } }) => {
+          lastType = toNavigationType(action.type);
+        }
+      );
+
+      // Loading starts before the new matches are rendered
+      const unsubscribeLoad = router.subscribe('onBeforeLoad', (event) => {
+        if (event.fromLocation && event.hrefChanged) {
+          onBeforeNavigate();
+        }
+      });
+
+      // Restore once the new matches have been rendered
+      const unsubscribeRendered = router.subscribe('onRendered', (event) => {
+        if (event.fromLocation && event.hrefChanged) {
+          onNavigate(toLocation(event.fromLocation), lastType);
+        }
+      });
+
+      return () => {
+        unsubscribeHistory();
+        unsubscribeLoad();
+        unsubscribeRendered();
+      };
+    },
+  };
+}
+
+/**
+ * Hook for scroll restoration with TanStack Router
+ */
+export function useTanStackRouterScrollRestoration(
+  router: AnyRouter,
+  options?: TanStackRouterScrollRestorationOptions
+) {
+  const adapter = React.useMemo(
+    () => createTanStackRouterAdapter(router),
+    [router]
+  );
+
+  useScrollRestoration({ ...options, ...adapter });
+}
+
+/**
+ * ScrollRestoration component for TanStack Router
+ */
+export function ScrollRestoration({
+  router,
+  ...options
+}: TanStackRouterScrollRestorationOptions & { router: AnyRouter }) {
+  useTanStackRouterScrollRestoration(router, options);
+  return null;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createScrollRestorationPlugin,
+  createVueRouterNavigationListener,
+  useScrollRestoration,
+} from './vue';
+import { createScrollRestoration } from '../registry';
+import { createMemoryStorage } from '../storage';
+
+describe('createScrollRestorationPlugin', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should track scrolling until the app unmounts', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    const plugin = createScrollRestorationPlugin({
+      instance,
+      getKey: () => 'home',
+      navigationListener: () => () => undefined,
+    });
+    const unmountHooks: Array<() => void> = [];
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(300);
+
+    plugin.install({ onUnmount: (cleanup) => unmountHooks.push(cleanup) });
+    document.dispatchEvent(new Event('scroll'));
+    plugin.restorer.save();
+
+    expect(instance.cache.state.cached['home___window']).toMatchObject({
+      scrollY: 300,
+    });
+
+    unmountHooks.forEach((cleanup) => cleanup());
+    document.dispatchEvent(new Event('scroll'));
+    expect(instance.cache.state.next).toEqual({});
+  });
+});
+
+describe('useScrollRestoration', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should track scrolling between mount and unmount', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    const mounted: Array<() => void> = [];
+    const unmounted: Array<() => void> = [];
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(300);
+
+    const restorer = useScrollRestoration(
+      {
+        onMounted: (hook) => mounted.push(hook),
+        onUnmounted: (hook) => unmounted.push(hook),
+      },
+      {
+        instance,
+        getKey: () => 'home',
+        navigationListener: () => () => undefined,
+      }
+    );
+
+    // Nothing is tracked before the component mounts
+    document.dispatchEvent(new Event('scroll'));
+    expect(instance.cache.state.next).toEqual({});
+
+    mounted.forEach((hook) => hook());
+    document.dispatchEvent(new Event('scroll'));
+    restorer.save();
+    expect(instance.cache.state.cached['home___window']).toMatchObject({
+      scrollY: 300,
+    });
+
+    unmounted.forEach((hook) => hook());
+    document.dispatchEvent(new Event('scroll'));
+    expect(instance.cache.state.next).toEqual({});
+  });
+});
+
+describe('createVueRouterNavigationListener', () => {
+  // Minimal router keeping the registered guards
+  const createRouter = () => {
+    const before: Array<() => void> = [];
+    const after: Array<
+      (to: unknown, from: unknown, failure?: unknown) => void
+    > = [];
+    return {
+      router: {
+        beforeEach: (guard: () => void) => {
+          before.push(guard);
+          return () => before.splice(before.indexOf(guard), 1);
+        },
+        afterEach: (
+          guard: (to: unknown, from: unknown, failure?: unknown) => void
+        ) => {
+          after.push(guard);
+          return () => after.splice(after.indexOf(guard), 1);
+        },
+      },
+      navigate: (failure?: unknown) => {
+        before.forEach((guard) => guard());
+        after.forEach((guard) => guard({}, {}, failure));
+      },
+    };
+  };
+
+  it('should save before and restore after navigating', () => {
+    const { router, navigate } = createRouter();
+    const onNavigate = vi.fn();
+    const onBeforeNavigate = vi.fn();
+    const stop = createVueRouterNavigationListener(router)(
+      onNavigate,
+      onBeforeNavigate
+    );
+
+    navigate();
+    expect(onBeforeNavigate).toHaveBeenCalledTimes(1);
+    expect(onNavigate).toHaveBeenCalledWith(expect.any(Object), 'push');
+
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    navigate();
+    expect(onNavigate).toHaveBeenLastCalledWith(expect.any(Object), 'pop');
+
+    stop();
+    navigate();
+    expect(onNavigate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore failed navigations', () => {
+    const { router, navigate } = createRouter();
+    const onNavigate = vi.fn();
+
+    const stop = createVueRouterNavigationListener(router)(onNavigate, vi.fn());
+    navigate(new Error('aborted'));
+    expect(onNavigate).not.toHaveBeenCalled();
+    stop();
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  createScrollRestorer,
+  ScrollRestorer,
+  ScrollRestorerOptions,
+} from '../restorer';
+import { defaultGetCurrentLocation } from '../navigation';
+import { NavigationListener } from '../shapes';
+
+/**
+ * Parts of a Vue application used by the plugin, typed structurally so the
+ * package does not depend on Vue
+ */
+export type VueAppLike = {
+  onUnmount?: (cleanup: () => void) => void;
+};
+
+/**
+ * Lifecycle hooks of Vue used by the composable, pass onMounted and
+ * onUnmounted imported from 'vue'
+ */
+export type VueLifecycleHooks = {
+  onMounted: (hook: () => void) => void;
+  onUnmounted: (hook: () => void) => void;
+};
+
+/**
+ * Navigation guards of Vue Router used by the listener, both return a function
+ * removing the guard
+ */
+export type VueRouterLike = {
+  beforeEach: (guard: () => void) => () => void;
+  afterEach: (
+    guard: (to: unknown, from: unknown, failure?: unknown) => void
+  ) => () => void;
+};
+
+export type VueScrollRestorationPlugin = {
+  install: (app: VueAppLike) => void;
+  restorer: ScrollRestorer;
+};
+
+/**
+ * Navigation listener for Vue Router, saves in beforeEach and restores in
+ * afterEach
+ */
+export function createVueRouterNavigationListener(
+  router: VueRouterLike
+): NavigationListener {
+  return (onNavigate, onBeforeNavigate) => {
+    let lastLocation = defaultGetCurrentLocation();
+    let popped = false;
+
+    // Back/forward navigations go through popstate, everything else is a push
+    const handlePopState = () => {
+      popped = true;
+    };
+
+    // The old page is still rendered before the guards resolve
+    const removeBefore = router.beforeEach(() => {
+      onBeforeNavigate();
+    });
+
+    const removeAfter = router.afterEach((_to, _from, failure) => {
+      const type = popped ? 'pop' : 'push';
+      popped = false;
+      // Aborted and duplicated navigations keep the current page
+      if (failure) return;
+
+      const prevLocation = lastLocation;
+      lastLocation = defaultGetCurrentLocation();
+      onNavigate(prevLocation, type);
+    });
+
+    window.addEventListener('popstate', handlePopState);
+
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      removeBefore();
+      removeAfter();
+    };
+  };
+}
+
+/**
+ * Vue plugin restoring scroll positions for the lifetime of the application
+ * Pass a navigationListener built on the router, e.g.
+ * createVueRouterNavigationListener(router)
+ */
+export function createScrollRestorationPlugin(
+  options?: ScrollRestorerOptions
+): VueScrollRestorationPlugin {
+  const restorer = createScrollRestorer(options);
+
+  return {
+    install: (app) => {
+      restorer.start();
+      app.onUnmount?.(restorer.stop);
+    },
+    restorer,
+  };
+}
+
+/**
+ * Composable restoring scroll positions while the calling component is
+ * mounted, call it once in the setup of the root layout
+ */
+export function useScrollRestoration(
+  hooks: VueLifecycleHooks,
+  options?: ScrollRestorerOptions
+): ScrollRestorer {
+  const restorer = createScrollRestorer(options);
+
+  hooks.onMounted(restorer.start);
+  hooks.onUnmounted(restorer.stop);
+
+  return restorer;
+}
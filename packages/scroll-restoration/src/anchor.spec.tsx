@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { findScrollAnchor, resolveScrollAnchor } from './anchor';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+
+// Lay out feed items 100px apart, shifted by the current window scroll
+const layoutFeed = (getScrollY: () => number) =>
+  vi
+    .spyOn(Element.prototype, 'getBoundingClientRect')
+    .mockImplementation(function (this: Element) {
+      const items = Array.from(document.querySelectorAll('[data-id]'));
+      const index = items.indexOf(this);
+      const top = index * 100 - getScrollY();
+      return { top, bottom: top + 100 } as DOMRect;
+    });
+
+const mountFeed = (ids: string[]) => {
+  document.body.innerHTML = ids
+    .map((id) => `<article data-id="${id}"></article>`)
+    .join('');
+};
+
+describe('scroll anchors', () => {
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    layoutFeed(() => scrollY);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should find the first visible element and its offset', () => {
+    mountFeed(['a', 'b', 'c']);
+    scrollY = 130;
+
+    expect(findScrollAnchor(null, 'data-id')).toEqual({
+      key: 'b',
+      offset: -30,
+    });
+  });
+
+  it('should keep the anchor at its offset when content is added above', () => {
+    mountFeed(['new-1', 'new-2', 'a', 'b', 'c']);
+
+    expect(
+      resolveScrollAnchor(null, 'data-id', { key: 'b', offset: -30 })
+    ).toBe(330);
+  });
+
+  it('should report anchors that are gone', () => {
+    mountFeed(['a']);
+
+    expect(
+      resolveScrollAnchor(null, 'data-id', { key: 'b', offset: 0 })
+    ).toBeUndefined();
+  });
+
+  it('should restore relative to the anchor with anchorAttribute', () => {
+    const scrollTo = vi
+      .spyOn(window, 'scrollTo')
+      .mockImplementation(() => undefined);
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={() => 'feed'} anchorAttribute="data-id" />
+      </ScrollRestorationProvider>
+    );
+    mountFeed(['a', 'b', 'c']);
+
+    scrollY = 130;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+      instance.saveCurrentScrollPositions();
+    });
+    expect(instance.cache.state.cached['feed___window']).toMatchObject({
+      scrollY: 130,
+      anchor: { key: 'b', offset: -30 },
+    });
+
+    // Two items were published while away
+    mountFeed(['new-1', 'new-2', 'a', 'b', 'c']);
+    scrollY = 0;
+    act(() => instance.restoreScrollPositions());
+
+    expect(scrollTo).toHaveBeenCalledWith({
+      top: 330,
+      left: 0,
+      behavior: undefined,
+    });
+  });
+});
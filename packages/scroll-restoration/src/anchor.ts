@@ -0,0 +1,49 @@
+import { ScrollAnchor } from './shapes';
+import { attributeSelector } from './identity';
+
+// Top edge of the visible area of a scroller, the window when none is given
+const visibleTop = (scroller: Element | null) =>
+  scroller ? scroller.getBoundingClientRect().top : 0;
+
+/**
+ * Find the first element carrying the attribute that is visible in the
+ * scroller, along with its offset from the top of the visible area
+ */
+export const findScrollAnchor = (
+  scroller: Element | null,
+  attribute: string
+): ScrollAnchor | undefined => {
+  const top = visibleTop(scroller);
+  const candidates = (scroller || document).querySelectorAll(`[${attribute}]`);
+
+  for (const candidate of Array.from(candidates)) {
+    const rect = candidate.getBoundingClientRect();
+    const key = candidate.getAttribute(attribute);
+
+    if (key && rect.bottom > top) {
+      return { key, offset: rect.top - top };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Vertical scroll position keeping the anchor at its saved offset,
+ * undefined when the anchor element is gone
+ */
+export const resolveScrollAnchor = (
+  scroller: Element | null,
+  attribute: string,
+  anchor: ScrollAnchor
+): number | undefined => {
+  const element = (scroller || document).querySelector(
+    attributeSelector(attribute, anchor.key)
+  );
+  if (!element) return undefined;
+
+  const scrollTop = scroller ? scroller.scrollTop : window.scrollY;
+  const top = element.getBoundingClientRect().top - visibleTop(scroller);
+
+  return scrollTop + top - anchor.offset;
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  applyScrollPosition,
+  axisAttribute,
+  fromStartOffset,
+  getScrollAxis,
+  readScrollPosition,
+  toStartOffset,
+} from './axis';
+import { isScrollable } from './readiness';
+
+describe('RTL offsets', () => {
+  it.each([
+    ['negative', -120, 120],
+    ['reverse', 120, 120],
+    ['default', 380, 120],
+  ] as const)(
+    'should measure %s scroll offsets from the start',
+    (type, scrollLeft, offset) => {
+      expect(toStartOffset(scrollLeft, 500, type)).toBe(offset);
+      expect(fromStartOffset(offset, 500, type)).toBe(scrollLeft);
+    }
+  );
+});
+
+describe('scroll axes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createScroller = (axis?: string) => {
+    const element = document.createElement('div');
+    if (axis) element.setAttribute(axisAttribute, axis);
+    return element;
+  };
+
+  it('should read the declared axis', () => {
+    expect(getScrollAxis(createScroller('x'))).toBe('x');
+    expect(getScrollAxis(createScroller('diagonal'))).toBe('both');
+    expect(getScrollAxis(null)).toBe('both');
+  });
+
+  it('should only restore the declared axis', () => {
+    const carousel = createScroller('x');
+    carousel.scrollTop = 30;
+
+    applyScrollPosition(carousel, { scrollX: 200, scrollY: 90 });
+
+    expect(carousel.scrollLeft).toBe(200);
+    expect(carousel.scrollTop).toBe(30);
+  });
+
+  it('should ignore other axes when checking the scrollable area', () => {
+    const carousel = createScroller('x');
+    vi.spyOn(carousel, 'scrollWidth', 'get').mockReturnValue(1000);
+    vi.spyOn(carousel, 'clientWidth', 'get').mockReturnValue(400);
+
+    expect(isScrollable(carousel, { scrollX: 300, scrollY: 90 })).toBe(true);
+    expect(isScrollable(carousel, { scrollX: 900, scrollY: 0 })).toBe(false);
+  });
+
+  it('should keep horizontal offsets of RTL scrollers positive', () => {
+    const grid = createScroller();
+    grid.style.direction = 'rtl';
+    document.body.append(grid);
+    grid.scrollLeft = 150;
+
+    const position = readScrollPosition(grid);
+    grid.scrollLeft = 0;
+    applyScrollPosition(grid, position);
+
+    expect(position.scrollX).toBe(150);
+    expect(grid.scrollLeft).toBe(150);
+    grid.remove();
+  });
+});
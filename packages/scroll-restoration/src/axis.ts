@@ -0,0 +1,133 @@
+import { ScrollAxis } from './shapes';
+import { resolveScrollBehavior } from './a11y';
+
+/**
+ * Attribute declaring the axis restored for a scroller, 'x', 'y' or 'both'
+ */
+export const axisAttribute = 'data-scroll-restoration-axis';
+
+/**
+ * How browsers report scrollLeft in RTL scrollers: 'negative' goes from 0 at
+ * the start to negative values, 'reverse' from 0 to positive values and
+ * 'default' from the maximum down to 0
+ */
+export type RtlScrollType = 'negative' | 'reverse' | 'default';
+
+let rtlScrollType: RtlScrollType | undefined;
+
+// Detect the RTL scroll type of the browser once, with a scrolled probe
+const getRtlScrollType = (): RtlScrollType => {
+  if (rtlScrollType) return rtlScrollType;
+
+  const probe = document.createElement('div');
+  probe.dir = 'rtl';
+  probe.style.cssText =
+    'position:absolute;top:-1000px;width:4px;height:1px;overflow:scroll;font-size:14px';
+  probe.textContent = 'ABCD';
+  document.body.appendChild(probe);
+
+  rtlScrollType = 'reverse';
+  if (probe.scrollLeft > 0) {
+    rtlScrollType = 'default';
+  } else {
+    probe.scrollLeft = 1;
+    if (probe.scrollLeft === 0) rtlScrollType = 'negative';
+  }
+
+  probe.remove();
+  return rtlScrollType;
+};
+
+/**
+ * Convert a scrollLeft of an RTL scroller to its distance from the start
+ */
+export const toStartOffset = (
+  scrollLeft: number,
+  maxScrollLeft: number,
+  type: RtlScrollType
+): number => {
+  if (type === 'negative') return -scrollLeft;
+  if (type === 'default') return maxScrollLeft - scrollLeft;
+  return scrollLeft;
+};
+
+/**
+ * Convert a distance from the start back to the scrollLeft of an RTL scroller
+ */
+export const fromStartOffset = (
+  offset: number,
+  maxScrollLeft: number,
+  type: RtlScrollType
+): number => {
+  if (type === 'negative') return -offset;
+  if (type === 'default') return maxScrollLeft - offset;
+  return offset;
+};
+
+// Whether a scroller lays out right to left, the root element decides for
+// the window
+const isRtl = (target: Element) =>
+  window.getComputedStyle(target).direction === 'rtl';
+
+const getMaxScrollLeft = (target: Element) =>
+  Math.max(0, target.scrollWidth - target.clientWidth);
+
+/**
+ * Axis restored for a scroller, the window restores both
+ */
+export const getScrollAxis = (element: Element | null): ScrollAxis => {
+  const axis = element?.getAttribute(axisAttribute);
+  return axis === 'x' || axis === 'y' ? axis : 'both';
+};
+
+/**
+ * Read the position of an element, or of the window when no element is given
+ * Horizontal offsets of RTL scrollers are measured from the start, so they
+ * restore the same in every browser
+ */
+export const readScrollPosition = (
+  element: Element | null
+): { scrollX: number; scrollY: number } => {
+  const target = element || document.documentElement;
+  const scrollLeft = element ? element.scrollLeft : window.scrollX || 0;
+
+  return {
+    scrollX: isRtl(target)
+      ? toStartOffset(scrollLeft, getMaxScrollLeft(target), getRtlScrollType())
+      : scrollLeft,
+    scrollY: element ? element.scrollTop : window.scrollY || 0,
+  };
+};
+
+/**
+ * Scroll an element, or the window when no element is given, to a position
+ * read by readScrollPosition. Elements only restore their declared axis, and
+ * smooth scrolling gives way to prefers-reduced-motion
+ */
+export const applyScrollPosition = (
+  element: Element | null,
+  position: { scrollX: number; scrollY: number },
+  behavior?: ScrollToOptions['behavior']
+) => {
+  const target = element || document.documentElement;
+  const scrollLeft = isRtl(target)
+    ? fromStartOffset(
+        position.scrollX,
+        getMaxScrollLeft(target),
+        getRtlScrollType()
+      )
+    : position.scrollX;
+
+  if (!element) {
+    window.scrollTo({
+      top: position.scrollY,
+      left: scrollLeft,
+      behavior: resolveScrollBehavior(behavior),
+    });
+    return;
+  }
+
+  const axis = getScrollAxis(element);
+  if (axis !== 'y') element.scrollLeft = scrollLeft;
+  if (axis !== 'x') element.scrollTop = position.scrollY;
+};
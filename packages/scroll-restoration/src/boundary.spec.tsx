@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import * as React from 'react';
+import {
+  ScrollRestorationBoundary,
+  useScrollRestorationTransition,
+} from './boundary';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { defaultGetCurrentLocation } from './navigation';
+import { NavigationListener, ScrollRestorationInstance } from './shapes';
+
+// Wait for the animation frames preceding restores
+const waitForFrames = () =>
+  act(() => new Promise((resolve) => setTimeout(resolve, 100)));
+
+describe('ScrollRestorationBoundary', () => {
+  let instance: ScrollRestorationInstance;
+  let navigate: Parameters<NavigationListener>[0];
+  let resolveContent: () => void;
+  let content: Promise<void>;
+
+  const navigationListener: NavigationListener = (onNavigate) => {
+    navigate = onNavigate;
+    return () => undefined;
+  };
+
+  beforeEach(() => {
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    instance.cache.set((c) => ({
+      ...c,
+      cached: {
+        page___window: { scrollX: 0, scrollY: 500, timestamp: Date.now() },
+      },
+    }));
+    content = new Promise((resolve) => {
+      resolveContent = resolve;
+    });
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function Content() {
+    React.use(content);
+    return <p>Content</p>;
+  }
+
+  const renderWithRestoration = (children: React.ReactNode) =>
+    act(async () => {
+      render(
+        <ScrollRestorationProvider instance={instance}>
+          <ScrollRestoration
+            getKey={() => 'page'}
+            navigationListener={navigationListener}
+          />
+          {children}
+        </ScrollRestorationProvider>
+      );
+    });
+
+  const expectRestored = (restored: boolean) => {
+    const calls = vi.mocked(window.scrollTo).mock.calls;
+    expect(
+      calls.some(
+        ([options]) => (options as ScrollToOptions | undefined)?.top === 500
+      )
+    ).toBe(restored);
+  };
+
+  it('should restore once the fallback was replaced by content', async () => {
+    await renderWithRestoration(
+      <ScrollRestorationBoundary fallback={<p>Loading</p>}>
+        <Content />
+      </ScrollRestorationBoundary>
+    );
+
+    navigate(defaultGetCurrentLocation(), 'pop');
+    await waitForFrames();
+    expectRestored(false);
+
+    await act(async () => resolveContent());
+    expect(screen.getByText('Content')).toBeTruthy();
+    await waitForFrames();
+    expectRestored(true);
+  });
+
+  it('should restore once a pending transition has finished', async () => {
+    let startTransition: React.TransitionStartFunction = () => undefined;
+    function Navigator() {
+      [, startTransition] = useScrollRestorationTransition();
+      return null;
+    }
+    await renderWithRestoration(<Navigator />);
+
+    act(() => startTransition(() => content));
+    navigate(defaultGetCurrentLocation(), 'pop');
+    await waitForFrames();
+    expectRestored(false);
+
+    await act(async () => resolveContent());
+    await waitForFrames();
+    expectRestored(true);
+  });
+});
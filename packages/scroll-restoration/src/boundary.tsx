@@ -0,0 +1,75 @@
+import * as React from 'react';
+import { ScrollRestorationInstanceOptions } from './shapes';
+import { useScrollRestorationInstance } from './instance';
+import { holdRestores } from './readiness';
+
+// Use appropriate effect based on environment
+const useIsomorphicLayoutEffect =
+  typeof window !== 'undefined' ? React.useLayoutEffect : React.useEffect;
+
+// Hold the restores of the resolved instance while active
+const useRestoreHold = (
+  active: boolean,
+  options?: ScrollRestorationInstanceOptions
+) => {
+  const instance = useScrollRestorationInstance(options);
+
+  useIsomorphicLayoutEffect(
+    () => (active ? holdRestores(instance) : undefined),
+    [instance, active]
+  );
+};
+
+// Fallback holding restores for as long as it is committed
+function BoundaryFallback(
+  props: ScrollRestorationInstanceOptions & { children?: React.ReactNode }
+) {
+  useRestoreHold(true, props);
+  return <>{props.children}</>;
+}
+
+export type ScrollRestorationBoundaryProps =
+  ScrollRestorationInstanceOptions & {
+    /**
+     * Shown while the children suspend, restores wait until it is replaced
+     */
+    fallback?: React.ReactNode;
+
+    /**
+     * Restores also wait while this is true, e.g. the isPending of useTransition
+     */
+    pending?: boolean;
+
+    children?: React.ReactNode;
+  };
+
+/**
+ * Suspense boundary delaying restores until its children have committed
+ * instead of the fallback, so positions are not clamped by skeletons
+ */
+export function ScrollRestorationBoundary(
+  props: ScrollRestorationBoundaryProps
+) {
+  const { fallback, pending = false, children, ...options } = props;
+  useRestoreHold(pending, options);
+
+  return (
+    <React.Suspense
+      fallback={<BoundaryFallback {...options}>{fallback}</BoundaryFallback>}
+    >
+      {children}
+    </React.Suspense>
+  );
+}
+
+/**
+ * useTransition holding restores while the transition is pending, so
+ * navigations started in it restore once their content has committed
+ */
+export function useScrollRestorationTransition(
+  options?: ScrollRestorationInstanceOptions
+): [boolean, React.TransitionStartFunction] {
+  const [isPending, startTransition] = React.useTransition();
+  useRestoreHold(isPending, options);
+  return [isPending, startTransition];
+}
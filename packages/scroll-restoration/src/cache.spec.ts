@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCache,
+  evictLeastRecentlyUsed,
+  getStorageKeys,
+  pruneCache,
+} from './cache';
+import { createMemoryStorage } from './storage';
+import { CacheState, ScrollStorage } from './shapes';
+
+const entry = (timestamp: number) => ({ scrollX: 0, scrollY: 10, timestamp });
+
+const state: CacheState = {
+  cached: {
+    a___window: entry(100),
+    'a___#list': entry(400),
+    b___window: entry(200),
+    c___window: entry(300),
+    'c___#list': entry(250),
+  },
+  next: {},
+};
+
+describe('pruneCache', () => {
+  it('should drop expired entries', () => {
+    const pruned = pruneCache(state, { maxAgeMs: 150 }, 400);
+    expect(Object.keys(pruned.cached).sort()).toEqual([
+      'a___#list',
+      'c___#list',
+      'c___window',
+    ]);
+  });
+
+  it('should keep the most recent entries per location', () => {
+    const pruned = pruneCache(state, { maxEntriesPerLocation: 1 });
+    expect(Object.keys(pruned.cached).sort()).toEqual([
+      'a___#list',
+      'b___window',
+      'c___window',
+    ]);
+  });
+
+  it('should evict least recently used locations first', () => {
+    const pruned = pruneCache(state, { maxEntries: 3 });
+    expect(Object.keys(pruned.cached).sort()).toEqual([
+      'a___#list',
+      'a___window',
+    ]);
+  });
+
+  it('should return an empty cache once everything is evicted', () => {
+    expect(evictLeastRecentlyUsed({ cached: {}, next: {} })).toBeNull();
+  });
+});
+
+describe('createCache quota handling', () => {
+  it('should evict and retry when the storage is full', () => {
+    const memory = createMemoryStorage();
+    const writes: string[] = [];
+    const storage: ScrollStorage = {
+      ...memory,
+      setItem: (key, value) => {
+        writes.push(value);
+        // Only accept payloads holding at most two entries
+        if (Object.keys(JSON.parse(value).cached).length > 2) {
+          throw new DOMException('full', 'QuotaExceededError');
+        }
+        memory.setItem(key, value);
+      },
+    };
+
+    const cache = createCache(storage);
+    expect(() => cache.set(state)).not.toThrow();
+
+    expect(writes.length).toBeGreaterThan(1);
+    expect(
+      Object.keys(
+        JSON.parse(memory.getItem(getStorageKeys().current) as string).cached
+      )
+    ).toEqual(['a___window', 'a___#list']);
+  });
+});
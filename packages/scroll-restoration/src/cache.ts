@@ -0,0 +1,221 @@
+import {
+  Cache,
+  CacheLimits,
+  CacheState,
+  CacheValue,
+  ScrollStorage,
+} from './shapes';
+import { defaultStorageKeyPrefix, delimiter } from './constants';
+import {
+  functionalUpdate,
+  isPromise,
+  isQuotaExceededError,
+  whenResolved,
+} from './helpers';
+import { deserializeCache, serializeCache } from './schema';
+import { syncCache } from './sync';
+
+type PersistedPayload = { raw: string | null; legacy: boolean };
+
+/**
+ * Storage keys for a prefix, the legacy key holds the unversioned v2 format
+ */
+export const getStorageKeys = (storageKeyPrefix = defaultStorageKeyPrefix) => ({
+  current: `${storageKeyPrefix}-cache`,
+  legacy: `${storageKeyPrefix}-v2`,
+});
+
+// Group cache keys by their location key
+const groupByLocation = (cached: CacheValue): Map<string, string[]> => {
+  const groups = new Map<string, string[]>();
+
+  for (const cacheKey in cached) {
+    const [locationKey] = cacheKey.split(delimiter);
+    const group = groups.get(locationKey) || [];
+    group.push(cacheKey);
+    groups.set(locationKey, group);
+  }
+
+  return groups;
+};
+
+// Timestamp of an entry, entries saved before timestamps existed count as oldest
+const timestampOf = (cached: CacheValue, cacheKey: string): number =>
+  cached[cacheKey]?.timestamp || 0;
+
+// Remove a set of cache keys
+const omit = (cached: CacheValue, cacheKeys: string[]): CacheValue => {
+  const next = { ...cached };
+  for (const cacheKey of cacheKeys) {
+    delete next[cacheKey];
+  }
+  return next;
+};
+
+/**
+ * Drop the least recently used location, returns null when nothing is left
+ */
+export const evictLeastRecentlyUsed = (
+  state: CacheState
+): CacheState | null => {
+  let oldest: string[] | null = null;
+  let oldestTimestamp = Infinity;
+
+  for (const cacheKeys of groupByLocation(state.cached).values()) {
+    const timestamp = Math.max(
+      ...cacheKeys.map((cacheKey) => timestampOf(state.cached, cacheKey))
+    );
+    if (timestamp < oldestTimestamp) {
+      oldest = cacheKeys;
+      oldestTimestamp = timestamp;
+    }
+  }
+
+  return oldest ? { ...state, cached: omit(state.cached, oldest) } : null;
+};
+
+/**
+ * Apply expiry and size limits to the cached entries
+ */
+export const pruneCache = (
+  state: CacheState,
+  limits: CacheLimits,
+  now = Date.now()
+): CacheState => {
+  const { maxEntries, maxAgeMs, maxEntriesPerLocation } = limits;
+  let cached = state.cached;
+
+  if (maxAgeMs !== undefined) {
+    cached = omit(
+      cached,
+      Object.keys(cached).filter(
+        (cacheKey) => now - timestampOf(cached, cacheKey) > maxAgeMs
+      )
+    );
+  }
+
+  if (maxEntriesPerLocation !== undefined) {
+    for (const cacheKeys of groupByLocation(cached).values()) {
+      if (cacheKeys.length > maxEntriesPerLocation) {
+        const byRecency = [...cacheKeys].sort(
+          (a, b) => timestampOf(cached, b) - timestampOf(cached, a)
+        );
+        cached = omit(cached, byRecency.slice(maxEntriesPerLocation));
+      }
+    }
+  }
+
+  let pruned: CacheState | null = { ...state, cached };
+
+  if (maxEntries !== undefined) {
+    while (pruned && Object.keys(pruned.cached).length > maxEntries) {
+      pruned = evictLeastRecentlyUsed(pruned);
+    }
+  }
+
+  return pruned || { ...state, cached: {} };
+};
+
+/**
+ * Create a scroll cache persisted through the given storage
+ */
+export const createCache = (
+  storage: ScrollStorage,
+  storageKeyPrefix?: string
+): Cache => {
+  const storageKeys = getStorageKeys(storageKeyPrefix);
+  let hydration: Promise<void> = Promise.resolve();
+  let syncUsers = 0;
+  let cleanupSync: (() => void) | null = null;
+
+  // Persisted entries are merged below anything written before hydration
+  const applyPersisted = ({ raw, legacy }: PersistedPayload) => {
+    const persisted = deserializeCache(raw) || { cached: {}, next: {} };
+    cache.state = {
+      cached: { ...persisted.cached, ...cache.state.cached },
+      next: { ...persisted.next, ...cache.state.next },
+    };
+    cache.hydrated = true;
+
+    // Move migrated legacy payloads over to the current key
+    if (legacy) {
+      persist();
+      Promise.resolve(storage.removeItem(storageKeys.legacy)).catch(
+        () => undefined
+      );
+    }
+  };
+
+  // Running out of space evicts the least recently used location and retries
+  const handleWriteError = (error: unknown) => {
+    if (!isQuotaExceededError(error)) return;
+
+    const evicted = evictLeastRecentlyUsed(cache.state);
+    if (evicted) {
+      cache.state = evicted;
+      persist();
+    }
+  };
+
+  const persist = () => {
+    try {
+      const result = storage.setItem(
+        storageKeys.current,
+        serializeCache(cache.state)
+      );
+      if (isPromise(result)) {
+        result.catch(handleWriteError);
+      }
+    } catch (error) {
+      handleWriteError(error);
+    }
+  };
+
+  const cache: Cache = {
+    state: { cached: {}, next: {} },
+    hydrated: false,
+    hydrate: () => hydration,
+    set: (updater) => {
+      cache.state = functionalUpdate(updater, cache.state);
+      persist();
+    },
+    sync: () => {
+      syncUsers++;
+      cleanupSync = cleanupSync || syncCache(cache, storageKeys.current);
+
+      // Sharing stops once every caller has stopped it
+      let stopped = false;
+      return () => {
+        if (stopped) return;
+        stopped = true;
+        syncUsers--;
+        if (syncUsers === 0) {
+          cleanupSync?.();
+          cleanupSync = null;
+        }
+      };
+    },
+  };
+
+  // Read the current payload, falling back to the legacy key
+  const readLegacy = () =>
+    whenResolved(storage.getItem(storageKeys.legacy), (raw) => ({
+      raw,
+      legacy: raw !== null,
+    }));
+  const initial = whenResolved(storage.getItem(storageKeys.current), (raw) =>
+    raw !== null ? { raw, legacy: false } : readLegacy()
+  ) as PersistedPayload | Promise<PersistedPayload>;
+
+  // Synchronous storages are read right away so the first restore is immediate
+  if (isPromise(initial)) {
+    hydration = initial.then(applyPersisted).catch(() => {
+      // Unreadable storage behaves like an empty one
+      cache.hydrated = true;
+    });
+  } else {
+    applyPersisted(initial);
+  }
+
+  return cache;
+};
@@ -1,6 +1,17 @@
 // Constants
 export const windowKey = 'window';
 export const delimiter = '___';
-export const storageKey = 'll-scroll-restoration-v2';
+export const defaultStorageKeyPrefix = 'll-scroll-restoration';
+// Attribute of the devtools panel, scrolling inside it is not tracked
+export const devtoolsAttribute = 'data-scroll-restoration-devtools';
 export const SCROLL_SAVE_EVENT = 'scrollRestorationSave';
 export const SCROLL_RESTORE_EVENT = 'scrollRestorationRestore';
+export const SCROLL_READY_EVENT = 'scrollRestorationReady';
+// Events dispatched around saves and restores
+export const SCROLL_BEFORE_SAVE_EVENT = 'scrollRestorationBeforeSave';
+export const SCROLL_SAVED_EVENT = 'scrollRestorationSaved';
+export const SCROLL_BEFORE_RESTORE_EVENT = 'scrollRestorationBeforeRestore';
+export const SCROLL_RESTORED_EVENT = 'scrollRestorationRestored';
+export const SCROLL_RESTORE_FAILED_EVENT = 'scrollRestorationRestoreFailed';
+// Time restores keep waiting for content by default
+export const defaultRestoreTimeoutMs = 3000;
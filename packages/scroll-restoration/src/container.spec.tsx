@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render } from '@testing-library/react';
+import * as React from 'react';
+import { ScrollContainer, useScrollContainer } from './container';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { createScrollRestorer, ScrollRestorerOptions } from './restorer';
+import { defaultGetCurrentLocation } from './navigation';
+import {
+  NavigationListener,
+  NavigationType,
+  ScrollRestorationInstance,
+} from './shapes';
+
+const cacheKey = 'page___[data-scroll-restoration-id="comments"]';
+const getKey = () => 'page';
+
+const renderWithInstance = (
+  instance: ScrollRestorationInstance,
+  children: React.ReactNode
+) =>
+  render(
+    <ScrollRestorationProvider instance={instance}>
+      {children}
+    </ScrollRestorationProvider>
+  );
+
+describe('useScrollContainer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should restore the saved position when mounting late', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    instance.cache.set({
+      cached: { [cacheKey]: { scrollX: 0, scrollY: 240 } },
+      next: {},
+    });
+
+    function Comments({ visible }: { visible: boolean }) {
+      const ref = useScrollContainer('comments', { getKey });
+      return visible ? <div ref={ref} data-testid="comments" /> : null;
+    }
+
+    const { rerender, getByTestId } = renderWithInstance(
+      instance,
+      <Comments visible={false} />
+    );
+    rerender(
+      <ScrollRestorationProvider instance={instance}>
+        <Comments visible />
+      </ScrollRestorationProvider>
+    );
+
+    expect(getByTestId('comments').scrollTop).toBe(240);
+  });
+
+  it('should register the element for saving', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+
+    renderWithInstance(
+      instance,
+      <ScrollContainer id="comments" getKey={getKey} />
+    );
+
+    expect(
+      instance.cache.state.next['[data-scroll-restoration-id="comments"]']
+    ).toBeDefined();
+  });
+
+  it('should save the position when unmounting', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    const ref = React.createRef<HTMLDivElement>();
+
+    const { unmount } = renderWithInstance(
+      instance,
+      <ScrollContainer id="comments" getKey={getKey} ref={ref} />
+    );
+    ref.current!.scrollTop = 180;
+    unmount();
+
+    expect(instance.cache.state.cached[cacheKey]).toMatchObject({
+      scrollX: 0,
+      scrollY: 180,
+    });
+  });
+
+  it('should only restore the axis of the container', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    instance.cache.set({
+      cached: { [cacheKey]: { scrollX: 320, scrollY: 240 } },
+      next: {},
+    });
+    const ref = React.createRef<HTMLDivElement>();
+
+    renderWithInstance(
+      instance,
+      <ScrollContainer id="comments" axis="x" getKey={getKey} ref={ref} />
+    );
+
+    expect(ref.current!.getAttribute('data-scroll-restoration-axis')).toBe('x');
+    expect(ref.current!.scrollLeft).toBe(320);
+    expect(ref.current!.scrollTop).toBe(0);
+  });
+
+  it('should restore once an asynchronous storage is loaded', async () => {
+    const storage = createMemoryStorage();
+    const instance = createScrollRestoration({
+      storage: {
+        getItem: async (key) => storage.getItem(key),
+        setItem: storage.setItem,
+        removeItem: storage.removeItem,
+      },
+    });
+    instance.cache.state.cached[cacheKey] = { scrollX: 0, scrollY: 90 };
+    const ref = React.createRef<HTMLDivElement>();
+
+    renderWithInstance(
+      instance,
+      <ScrollContainer id="comments" getKey={getKey} ref={ref} />
+    );
+    expect(ref.current!.scrollTop).toBe(0);
+
+    await instance.cache.hydrate();
+
+    expect(ref.current!.scrollTop).toBe(90);
+  });
+
+  describe('with a started restorer', () => {
+    // Start a restorer on the instance and return a function navigating
+    const startRestorer = (
+      instance: ScrollRestorationInstance,
+      options?: ScrollRestorerOptions
+    ) => {
+      let onNavigate: Parameters<NavigationListener>[0] = () => undefined;
+      const restorer = createScrollRestorer({
+        ...options,
+        instance,
+        getKey,
+        navigationListener: (listener) => {
+          onNavigate = listener;
+          return () => undefined;
+        },
+      });
+      restorer.start();
+      vi.spyOn(HTMLElement.prototype, 'scrollHeight', 'get').mockReturnValue(
+        1000
+      );
+
+      return {
+        restorer,
+        navigate: (type: NavigationType) =>
+          onNavigate(defaultGetCurrentLocation(), type),
+      };
+    };
+
+    it('should only restore when the navigation restores', () => {
+      const instance = createScrollRestoration({
+        storage: createMemoryStorage(),
+      });
+      const { restorer, navigate } = startRestorer(instance);
+      const ref = React.createRef<HTMLDivElement>();
+
+      navigate('push');
+      instance.cache.set({
+        cached: {
+          [cacheKey]: { scrollX: 0, scrollY: 240, timestamp: Date.now() },
+        },
+        next: {},
+      });
+      const { unmount } = renderWithInstance(
+        instance,
+        <ScrollContainer id="comments" getKey={getKey} ref={ref} />
+      );
+      expect(ref.current?.scrollTop).toBe(0);
+      unmount();
+
+      navigate('pop');
+      instance.cache.set({
+        cached: {
+          [cacheKey]: { scrollX: 0, scrollY: 240, timestamp: Date.now() },
+        },
+        next: {},
+      });
+      renderWithInstance(
+        instance,
+        <ScrollContainer id="comments" getKey={getKey} ref={ref} />
+      );
+      expect(ref.current?.scrollTop).toBe(240);
+
+      restorer.stop();
+    });
+
+    it('should run the restore hooks', () => {
+      const instance = createScrollRestoration({
+        storage: createMemoryStorage(),
+      });
+      const onBeforeRestore = vi.fn(() => false as const);
+      const { restorer, navigate } = startRestorer(instance, {
+        onBeforeRestore,
+      });
+      const ref = React.createRef<HTMLDivElement>();
+
+      navigate('pop');
+      instance.cache.set({
+        cached: {
+          [cacheKey]: { scrollX: 0, scrollY: 240, timestamp: Date.now() },
+        },
+        next: {},
+      });
+      renderWithInstance(
+        instance,
+        <ScrollContainer id="comments" getKey={getKey} ref={ref} />
+      );
+
+      expect(onBeforeRestore).toHaveBeenCalledWith(
+        expect.objectContaining({ scrollY: 240 })
+      );
+      expect(ref.current?.scrollTop).toBe(0);
+
+      restorer.stop();
+    });
+  });
+});
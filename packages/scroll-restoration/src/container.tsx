@@ -0,0 +1,155 @@
+import * as React from 'react';
+import { ScrollAxis, ScrollRestorationOptions } from './shapes';
+import { delimiter } from './constants';
+import { applyScrollPosition, axisAttribute, readScrollPosition } from './axis';
+import { useScrollRestorationInstance } from './instance';
+import { getElementSelector } from './identity';
+import { defaultGetCurrentLocation, defaultGetKey } from './navigation';
+
+export type ScrollContainerOptions = Pick<
+  ScrollRestorationOptions,
+  'getKey' | 'getCurrentLocation' | 'storage' | 'storageKeyPrefix'
+> & {
+  /**
+   * Axis to restore, e.g. 'x' for carousels. Defaults to 'both'
+   */
+  axis?: ScrollAxis;
+};
+
+/**
+ * Hook returning a ref callback that restores a scroll container
+ * The saved position is applied as soon as the element mounts, however late,
+ * and the current one is saved when it unmounts. While a restorer is started
+ * it restores the container, following its restoreOn, rules and hooks
+ */
+export function useScrollContainer(
+  id: string,
+  options?: ScrollContainerOptions
+): (element: HTMLElement | null) => void {
+  const instance = useScrollRestorationInstance(options);
+  const cache = instance.cache;
+  const axis = options?.axis;
+
+  // Location callbacks are often passed inline, keep the latest ones
+  const location = {
+    getKey: options?.getKey || defaultGetKey,
+    getCurrentLocation:
+      options?.getCurrentLocation || defaultGetCurrentLocation,
+  };
+  const locationRef = React.useRef(location);
+  locationRef.current = location;
+
+  // The mounted element and the cache key of the location it mounted on
+  const mountedRef = React.useRef<{
+    element: HTMLElement;
+    cacheKey: string;
+  } | null>(null);
+
+  return React.useCallback(
+    (element: HTMLElement | null) => {
+      const mounted = mountedRef.current;
+
+      // Save when unmounting, under the location the element belonged to
+      if (mounted && mounted.element !== element) {
+        mountedRef.current = null;
+        cache.set((c) => ({
+          ...c,
+          cached: {
+            ...c.cached,
+            [mounted.cacheKey]: {
+              ...readScrollPosition(mounted.element),
+              timestamp: Date.now(),
+            },
+          },
+        }));
+      }
+
+      if (!element || mounted?.element === element) return;
+
+      element.setAttribute('data-scroll-restoration-id', id);
+      if (axis) {
+        element.setAttribute(axisAttribute, axis);
+      }
+      const elementSelector = getElementSelector(element);
+      const { getKey, getCurrentLocation } = locationRef.current;
+      const locationKey = getKey(getCurrentLocation());
+      const cacheKey = [locationKey, elementSelector].join(delimiter);
+      mountedRef.current = { element, cacheKey };
+
+      // Track the element so navigations save it even if it never scrolled
+      if (!cache.state.next[elementSelector]) {
+        cache.set((c) => ({
+          ...c,
+          next: {
+            ...c.next,
+            [elementSelector]: { scrollX: NaN, scrollY: NaN },
+          },
+        }));
+      }
+
+      const restore = () => {
+        if (mountedRef.current?.element !== element) return;
+
+        // A started restorer decides, fresh navigations start at the top
+        if (instance.restoreLate) {
+          instance.restoreLate({ key: locationKey, selector: elementSelector });
+          return;
+        }
+
+        const entry = cache.state.cached[cacheKey];
+        if (entry) {
+          applyScrollPosition(element, entry);
+        }
+      };
+
+      // Asynchronous storages have to be loaded first
+      if (cache.hydrated) {
+        restore();
+      } else {
+        cache.hydrate().then(restore);
+      }
+    },
+    [id, axis, instance, cache]
+  );
+}
+
+export type ScrollContainerProps = ScrollContainerOptions &
+  React.HTMLAttributes<HTMLDivElement> & {
+    /**
+     * Identity of the container, set as its data-scroll-restoration-id
+     */
+    id: string;
+  };
+
+/**
+ * Scrollable div restoring its position, see useScrollContainer
+ */
+export const ScrollContainer = React.forwardRef<
+  HTMLDivElement,
+  ScrollContainerProps
+>(function ScrollContainer(
+  { id, axis, getKey, getCurrentLocation, storage, storageKeyPrefix, ...props },
+  ref
+) {
+  const containerRef = useScrollContainer(id, {
+    axis,
+    getKey,
+    getCurrentLocation,
+    storage,
+    storageKeyPrefix,
+  });
+
+  const mergedRef = React.useCallback(
+    (element: HTMLDivElement | null) => {
+      containerRef(element);
+      if (typeof ref === 'function') {
+        ref(element);
+      } else if (ref) {
+        ref.current = element;
+      }
+    },
+    [containerRef, ref]
+  );
+
+  return <div {...props} ref={mergedRef} />;
+});
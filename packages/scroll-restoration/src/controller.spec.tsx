@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, renderHook } from '@testing-library/react';
+import * as React from 'react';
+import {
+  ScrollRestorationController,
+  useScrollRestorationController,
+} from './controller';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { ScrollRestorationInstance } from './shapes';
+
+const getKey = () => 'page';
+
+describe('useScrollRestorationController', () => {
+  let instance: ScrollRestorationInstance;
+  let controller: ScrollRestorationController;
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  function Controlled() {
+    controller = useScrollRestorationController({ getKey });
+    return null;
+  }
+
+  const renderWithInstance = () =>
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={getKey} />
+        <Controlled />
+      </ScrollRestorationProvider>
+    );
+
+  const scrollWindow = (y: number) => {
+    scrollY = y;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+    });
+  };
+
+  it('should save right away under the given key and keep tracking', () => {
+    renderWithInstance();
+
+    scrollWindow(250);
+    controller.save();
+    controller.save('bookmark');
+
+    expect(controller.read()).toEqual({
+      window: expect.objectContaining({ scrollY: 250 }),
+    });
+    expect(controller.read('bookmark')).toEqual({
+      window: expect.objectContaining({ scrollY: 250 }),
+    });
+    expect(controller.getTrackedSelectors()).toEqual(['window']);
+  });
+
+  it('should not record positions while paused', () => {
+    renderWithInstance();
+
+    controller.pause();
+    scrollWindow(250);
+    expect(controller.isPaused()).toBe(true);
+    expect(controller.getTrackedSelectors()).toEqual([]);
+
+    controller.resume();
+    scrollWindow(300);
+    expect(controller.getTrackedSelectors()).toEqual(['window']);
+  });
+
+  it('should clear the entries of a key', () => {
+    renderWithInstance();
+    instance.cache.set({
+      cached: {
+        page___window: { scrollX: 0, scrollY: 10 },
+        other___window: { scrollX: 0, scrollY: 20 },
+      },
+      next: {},
+    });
+
+    controller.clear();
+    expect(Object.keys(instance.cache.state.cached)).toEqual([
+      'other___window',
+    ]);
+
+    controller.clearAll();
+    expect(instance.cache.state.cached).toEqual({});
+  });
+
+  it('should restore an element and report success', async () => {
+    renderWithInstance();
+    document.body.innerHTML = '<div id="list"></div>';
+    const list = document.getElementById('list')!;
+    vi.spyOn(list, 'scrollHeight', 'get').mockReturnValue(1000);
+    vi.spyOn(list, 'clientHeight', 'get').mockReturnValue(400);
+    instance.cache.set({
+      cached: {
+        page___window: { scrollX: 0, scrollY: 900 },
+        'page___[id="list"]': { scrollX: 0, scrollY: 300 },
+      },
+      next: {},
+    });
+
+    await expect(controller.restore({ element: list })).resolves.toBe(true);
+
+    expect(list.scrollTop).toBe(300);
+    expect(window.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should report positions that could not be reached', async () => {
+    renderWithInstance();
+    instance.cache.set({
+      cached: { 'page___#missing': { scrollX: 0, scrollY: 300 } },
+      next: {},
+    });
+    vi.useFakeTimers();
+
+    const restored = controller.restore();
+    await vi.advanceTimersByTimeAsync(3000);
+    vi.useRealTimers();
+
+    await expect(restored).resolves.toBe(false);
+    await expect(controller.restore({ key: 'unknown' })).resolves.toBe(false);
+  });
+
+  it('should run the restore hooks and events', async () => {
+    const onBeforeRestore = vi.fn(() => false as const);
+    const { result } = renderHook(
+      () => useScrollRestorationController({ getKey, onBeforeRestore }),
+      {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <ScrollRestorationProvider instance={instance}>
+            {children}
+          </ScrollRestorationProvider>
+        ),
+      }
+    );
+    instance.cache.set({
+      cached: { page___window: { scrollX: 0, scrollY: 300 } },
+      next: {},
+    });
+    vi.spyOn(document.documentElement, 'scrollHeight', 'get').mockReturnValue(
+      2000
+    );
+
+    await expect(result.current.restore()).resolves.toBe(false);
+
+    expect(onBeforeRestore).toHaveBeenCalledWith(
+      expect.objectContaining({ selector: 'window', scrollY: 300 })
+    );
+    expect(window.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should return a stable controller', () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <ScrollRestorationProvider instance={instance}>
+        {children}
+      </ScrollRestorationProvider>
+    );
+    const { result, rerender } = renderHook(
+      () => useScrollRestorationController({ getKey: () => 'page' }),
+      { wrapper }
+    );
+    const first = result.current;
+
+    rerender();
+
+    expect(result.current).toBe(first);
+  });
+});
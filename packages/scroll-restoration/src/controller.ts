@@ -0,0 +1,150 @@
+import * as React from 'react';
+import {
+  CacheValue,
+  ScrollRestorationOptions,
+  ScrollRestoreTarget,
+  ScrollSaveRequest,
+} from './shapes';
+import { delimiter } from './constants';
+import { dispatchScrollEvent } from './events';
+import { useScrollRestorationInstance } from './instance';
+import { createScrollRestorer } from './restorer';
+import { defaultGetCurrentLocation, defaultGetKey } from './navigation';
+
+export type ScrollRestorationControllerOptions = Pick<
+  ScrollRestorationOptions,
+  | 'getKey'
+  | 'getCurrentLocation'
+  | 'storage'
+  | 'storageKeyPrefix'
+  | 'scrollBehavior'
+  | 'restoreTimeoutMs'
+  | 'anchorAttribute'
+  | 'identityAttributes'
+  | 'getElementKey'
+  | 'rules'
+  | 'onBeforeRestore'
+  | 'onRestore'
+  | 'onRestoreFailed'
+>;
+
+export type ScrollRestorationController = {
+  /**
+   * Save the tracked positions now, under the key of the current location
+   * unless another one is given. Tracking continues afterwards
+   */
+  save: (key?: string) => void;
+
+  /**
+   * Restore saved positions, waiting for content up to restoreTimeoutMs
+   * Resolves whether every position was found and reached
+   */
+  restore: (target?: ScrollRestoreTarget) => Promise<boolean>;
+
+  /**
+   * Saved entries of a key by element selector, 'window' for the window
+   */
+  read: (key?: string) => CacheValue;
+
+  /**
+   * Forget the saved entries of a key
+   */
+  clear: (key?: string) => void;
+
+  /**
+   * Forget all saved entries
+   */
+  clearAll: () => void;
+
+  /**
+   * Stop recording scroll positions, e.g. while animating scrollers
+   */
+  pause: () => void;
+
+  /**
+   * Record scroll positions again
+   */
+  resume: () => void;
+
+  /**
+   * Whether recording is paused
+   */
+  isPaused: () => boolean;
+
+  /**
+   * Selectors of the elements scrolled since the last restore
+   */
+  getTrackedSelectors: () => string[];
+};
+
+/**
+ * Hook returning imperative methods to save, restore and inspect positions
+ * of the instance in scope. The returned controller is stable
+ */
+export function useScrollRestorationController(
+  options?: ScrollRestorationControllerOptions
+): ScrollRestorationController {
+  const instance = useScrollRestorationInstance(options);
+
+  // Options are often passed inline, methods read the latest ones
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+
+  // Restores go through a restorer that is never started, so they run the
+  // same hooks, rules and events as the ones after navigations
+  const restorer = React.useMemo(
+    () => createScrollRestorer({ ...options, instance }),
+    // Options are passed on every render below, only the instance recreates
+    [instance]
+  );
+  restorer.setOptions({ ...options, instance });
+
+  return React.useMemo(() => {
+    const cache = instance.cache;
+
+    const currentKey = () => {
+      const getKey = optionsRef.current?.getKey || defaultGetKey;
+      const getCurrentLocation =
+        optionsRef.current?.getCurrentLocation || defaultGetCurrentLocation;
+      return getKey(getCurrentLocation());
+    };
+
+    const read = (key = currentKey()) => {
+      const entries: CacheValue = {};
+      for (const cacheKey in cache.state.cached) {
+        const [entryKey, elementSelector] = cacheKey.split(delimiter);
+        if (entryKey === key && elementSelector) {
+          entries[elementSelector] = cache.state.cached[cacheKey]!;
+        }
+      }
+      return entries;
+    };
+
+    const controller: ScrollRestorationController = {
+      save: (key) => {
+        const request: ScrollSaveRequest = { key };
+        dispatchScrollEvent(instance.events.save, request);
+      },
+      restore: (target = {}) => restorer.restore(target),
+      read,
+      clear: (key = currentKey()) =>
+        cache.set((c) => {
+          const cached = { ...c.cached };
+          for (const cacheKey in cached) {
+            if (cacheKey.split(delimiter)[0] === key) delete cached[cacheKey];
+          }
+          return { ...c, cached };
+        }),
+      clearAll: () => cache.set((c) => ({ ...c, cached: {} })),
+      pause: () => {
+        instance.paused = true;
+      },
+      resume: () => {
+        instance.paused = false;
+      },
+      isPaused: () => instance.paused,
+      getTrackedSelectors: () => Object.keys(cache.state.next),
+    };
+    return controller;
+  }, [instance, restorer]);
+}
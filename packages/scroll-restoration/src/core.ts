@@ -0,0 +1,14 @@
+export * from './restorer';
+export * from './registry';
+export * from './inline-script';
+export * from './a11y';
+export * from './debug';
+export {
+  saveCurrentScrollPositions,
+  restoreScrollPositions,
+  markRouteReady,
+} from './events';
+export * from './navigation';
+export * from './storage';
+export * from './schema';
+export * from './shapes';
@@ -0,0 +1,18 @@
+import { ScrollDebugEvent, ScrollRestorationOptions } from './shapes';
+
+/**
+ * Log a restoration step with the debug option, does nothing without it
+ */
+export const logDebug = (
+  debug: ScrollRestorationOptions['debug'],
+  event: Omit<ScrollDebugEvent, 'timestamp'>
+) => {
+  if (!debug) return;
+
+  const entry: ScrollDebugEvent = { ...event, timestamp: Date.now() };
+  if (typeof debug === 'function') {
+    debug(entry);
+  } else {
+    console.debug('[scroll-restoration]', entry);
+  }
+};
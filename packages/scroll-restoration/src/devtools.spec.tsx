@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ScrollRestorationDevtools } from './devtools';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { ScrollRestorationInstance } from './shapes';
+
+describe('ScrollRestorationDevtools', () => {
+  let instance: ScrollRestorationInstance;
+
+  beforeEach(() => {
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    instance.cache.set({
+      cached: {
+        home___window: { scrollX: 0, scrollY: 420 },
+        'home___[data-scroll-restoration-id="sidebar"]': {
+          scrollX: 0,
+          scrollY: 80,
+        },
+        settings___window: { scrollX: 0, scrollY: 0 },
+      },
+      next: { window: { scrollX: NaN, scrollY: NaN } },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderDevtools = () =>
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestorationDevtools getKey={() => 'home'} initialIsOpen />
+      </ScrollRestorationProvider>
+    );
+
+  it('should list tracked selectors and saved entries by location', () => {
+    renderDevtools();
+
+    expect(screen.getByText('home (current)')).toBeTruthy();
+    expect(screen.getByText('settings')).toBeTruthy();
+    expect(screen.getByText('0, 420')).toBeTruthy();
+    expect(screen.getAllByText('window')).toHaveLength(3);
+    expect(screen.getAllByText('missing')).toHaveLength(1);
+  });
+
+  it('should clear single entries and whole locations', () => {
+    renderDevtools();
+
+    fireEvent.click(
+      screen.getByLabelText('Clear [data-scroll-restoration-id="sidebar"]')
+    );
+    fireEvent.click(screen.getByLabelText('Clear settings'));
+
+    expect(Object.keys(instance.cache.state.cached)).toEqual(['home___window']);
+    expect(screen.queryByText('settings')).toBeNull();
+  });
+
+  it('should highlight the element a selector resolves to', () => {
+    const sidebar = document.createElement('div');
+    sidebar.setAttribute('data-scroll-restoration-id', 'sidebar');
+    document.body.append(sidebar);
+    const { container } = renderDevtools();
+
+    fireEvent.mouseEnter(
+      screen.getByText('[data-scroll-restoration-id="sidebar"]')
+    );
+
+    expect(container.querySelector('[style*="outline"]')).toBeTruthy();
+    sidebar.remove();
+  });
+});
@@ -0,0 +1,298 @@
+import * as React from 'react';
+import { CacheEntry, CacheValue } from './shapes';
+import {
+  delimiter,
+  devtoolsAttribute,
+  windowKey,
+  SCROLL_SAVED_EVENT,
+  SCROLL_RESTORED_EVENT,
+  SCROLL_RESTORE_FAILED_EVENT,
+} from './constants';
+import { useScrollRestorationInstance } from './instance';
+import {
+  ScrollRestorationControllerOptions,
+  useScrollRestorationController,
+} from './controller';
+import { defaultGetCurrentLocation, defaultGetKey } from './navigation';
+
+export type ScrollRestorationDevtoolsProps =
+  ScrollRestorationControllerOptions & {
+    /**
+     * Whether the panel starts open, defaults to false
+     */
+    initialIsOpen?: boolean;
+
+    /**
+     * Corner of the viewport holding the panel, defaults to 'bottom-right'
+     */
+    position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  };
+
+// Events after which the cache has changed
+const refreshEvents = [
+  SCROLL_SAVED_EVENT,
+  SCROLL_RESTORED_EVENT,
+  SCROLL_RESTORE_FAILED_EVENT,
+];
+
+// Group cached entries by location key, in insertion order
+const groupByLocation = (cached: CacheValue) => {
+  const groups = new Map<string, Array<[string, CacheEntry]>>();
+
+  for (const cacheKey in cached) {
+    const [locationKey = '', selector = ''] = cacheKey.split(delimiter);
+    const group = groups.get(locationKey) || [];
+    group.push([selector, cached[cacheKey] as CacheEntry]);
+    groups.set(locationKey, group);
+  }
+
+  return groups;
+};
+
+// Element a selector resolves to, selectors read from storage may be invalid
+const resolveSelector = (selector: string): Element | null => {
+  try {
+    return document.querySelector(selector);
+  } catch {
+    return null;
+  }
+};
+
+const styles = {
+  panel: {
+    position: 'fixed',
+    zIndex: 2147483647,
+    maxWidth: 420,
+    font: '12px/1.4 ui-monospace, monospace',
+    color: '#e5e7eb',
+    background: '#111827',
+    borderRadius: 6,
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)',
+  },
+  body: { maxHeight: '50vh', overflow: 'auto', padding: '0 8px 8px' },
+  heading: { margin: '8px 0 4px', fontSize: 12, fontWeight: 600 },
+  list: { margin: 0, padding: 0, listStyle: 'none' },
+  row: { display: 'flex', gap: 6, alignItems: 'baseline', padding: '2px 0' },
+  selector: { flex: 1, overflowWrap: 'anywhere' },
+  missing: { color: '#f87171' },
+  button: {
+    font: 'inherit',
+    color: 'inherit',
+    background: '#374151',
+    border: 0,
+    borderRadius: 4,
+    padding: '2px 6px',
+    cursor: 'pointer',
+  },
+  highlight: {
+    position: 'fixed',
+    zIndex: 2147483646,
+    pointerEvents: 'none',
+    outline: '2px solid #f59e0b',
+    background: 'rgba(245, 158, 11, 0.15)',
+  },
+} satisfies Record<string, React.CSSProperties>;
+
+const corners: Record<
+  NonNullable<ScrollRestorationDevtoolsProps['position']>,
+  React.CSSProperties
+> = {
+  'top-left': { top: 8, left: 8 },
+  'top-right': { top: 8, right: 8 },
+  'bottom-left': { bottom: 8, left: 8 },
+  'bottom-right': { bottom: 8, right: 8 },
+};
+
+// Selector of a scroller with its position, highlighting the element on hover
+function SelectorRow(props: {
+  selector: string;
+  entry?: CacheEntry;
+  onHighlight: (element: Element | null) => void;
+  onRemove?: () => void;
+}) {
+  const { selector, entry, onHighlight, onRemove } = props;
+  const element = selector === windowKey ? null : resolveSelector(selector);
+  const missing = selector !== windowKey && !element;
+
+  return (
+    <li
+      style={styles.row}
+      onMouseEnter={() => onHighlight(element)}
+      onMouseLeave={() => onHighlight(null)}
+    >
+      <span style={styles.selector}>{selector}</span>
+      {missing && <span style={styles.missing}>missing</span>}
+      {entry && Number.isFinite(entry.scrollY) && (
+        <span>
+          {Math.round(entry.scrollX)}, {Math.round(entry.scrollY)}
+        </span>
+      )}
+      {entry?.anchor && <span title="Anchor">⚓ {entry.anchor.key}</span>}
+      {onRemove && (
+        <button
+          type="button"
+          style={styles.button}
+          aria-label={`Clear ${selector}`}
+          onClick={onRemove}
+        >
+          ×
+        </button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Panel inspecting the tracked and saved positions of an instance, with
+ * actions to save, restore and clear them. Meant for development
+ */
+export function ScrollRestorationDevtools(
+  props: ScrollRestorationDevtoolsProps
+) {
+  const {
+    initialIsOpen = false,
+    position = 'bottom-right',
+    ...options
+  } = props;
+  const cache = useScrollRestorationInstance(options).cache;
+  const controller = useScrollRestorationController(options);
+  const [isOpen, setIsOpen] = React.useState(initialIsOpen);
+  const [highlighted, setHighlighted] = React.useState<DOMRect | null>(null);
+  const [, refresh] = React.useReducer((count: number) => count + 1, 0);
+
+  // The cache is not observable, refresh after saves and restores, and every
+  // second for positions tracked while scrolling
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    refreshEvents.forEach((type) => window.addEventListener(type, refresh));
+    const interval = setInterval(refresh, 1000);
+    return () => {
+      refreshEvents.forEach((type) =>
+        window.removeEventListener(type, refresh)
+      );
+      clearInterval(interval);
+    };
+  }, [isOpen]);
+
+  const highlight = (element: Element | null) =>
+    setHighlighted(element ? element.getBoundingClientRect() : null);
+
+  // Run an action and show its effect right away
+  const run = (action: () => void) => () => {
+    action();
+    refresh();
+  };
+
+  const removeEntry = (locationKey: string, selector: string) =>
+    run(() =>
+      cache.set((c) => {
+        const cached = { ...c.cached };
+        delete cached[[locationKey, selector].join(delimiter)];
+        return { ...c, cached };
+      })
+    );
+
+  const currentKey = (options.getKey || defaultGetKey)(
+    (options.getCurrentLocation || defaultGetCurrentLocation)()
+  );
+  const groups = groupByLocation(cache.state.cached);
+
+  return (
+    <div
+      {...{ [devtoolsAttribute]: '' }}
+      style={{ ...styles.panel, ...corners[position] }}
+    >
+      <button
+        type="button"
+        style={{ ...styles.button, background: 'none', padding: 8 }}
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Scroll restoration
+      </button>
+      {isOpen && (
+        <div style={styles.body}>
+          <h2 style={styles.heading}>Current location</h2>
+          <div style={styles.selector}>{currentKey}</div>
+          <div style={{ ...styles.row, marginTop: 4 }}>
+            <button
+              type="button"
+              style={styles.button}
+              onClick={run(() => controller.save())}
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              style={styles.button}
+              onClick={() => controller.restore().then(refresh)}
+            >
+              Restore
+            </button>
+            <button
+              type="button"
+              style={styles.button}
+              onClick={run(controller.clearAll)}
+            >
+              Clear all
+            </button>
+          </div>
+
+          <h2 style={styles.heading}>Tracked</h2>
+          <ul style={styles.list}>
+            {Object.keys(cache.state.next).map((selector) => (
+              <SelectorRow
+                key={selector}
+                selector={selector}
+                onHighlight={highlight}
+              />
+            ))}
+          </ul>
+
+          <h2 style={styles.heading}>Saved</h2>
+          {[...groups].map(([locationKey, entries]) => (
+            <section key={locationKey}>
+              <h3 style={{ ...styles.heading, ...styles.row }}>
+                <span style={styles.selector}>
+                  {locationKey}
+                  {locationKey === currentKey && ' (current)'}
+                </span>
+                <button
+                  type="button"
+                  style={styles.button}
+                  aria-label={`Clear ${locationKey}`}
+                  onClick={run(() => controller.clear(locationKey))}
+                >
+                  Clear
+                </button>
+              </h3>
+              <ul style={styles.list}>
+                {entries.map(([selector, entry]) => (
+                  <SelectorRow
+                    key={selector}
+                    selector={selector}
+                    entry={entry}
+                    onHighlight={highlight}
+                    onRemove={removeEntry(locationKey, selector)}
+                  />
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+      {highlighted && (
+        <div
+          style={{
+            ...styles.highlight,
+            top: highlighted.top,
+            left: highlighted.left,
+            width: highlighted.width,
+            height: highlighted.height,
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { runBeforeHook } from './events';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import {
+  ScrollEventDetail,
+  ScrollRestorationInstance,
+  ScrollRestorationOptions,
+} from './shapes';
+
+const detail: ScrollEventDetail = {
+  locationKey: 'page',
+  selector: 'window',
+  scrollX: 0,
+  scrollY: 100,
+  found: true,
+};
+
+describe('runBeforeHook', () => {
+  it('should apply coordinates returned by the hook', () => {
+    expect(
+      runBeforeHook('beforeTest', () => ({ scrollY: 40 }), detail)
+    ).toEqual({ ...detail, scrollY: 40 });
+  });
+
+  it('should cancel when the hook returns false', () => {
+    expect(runBeforeHook('beforeTest', () => false, detail)).toBeUndefined();
+  });
+
+  it('should let event listeners cancel or change the detail', () => {
+    const onBefore = (event: Event) => {
+      const { detail } = event as CustomEvent<ScrollEventDetail>;
+      if (detail.selector === 'window') {
+        event.preventDefault();
+      } else {
+        detail.scrollY = 10;
+      }
+    };
+    window.addEventListener('beforeTest', onBefore);
+
+    expect(runBeforeHook('beforeTest', undefined, detail)).toBeUndefined();
+    expect(
+      runBeforeHook('beforeTest', undefined, { ...detail, selector: '#list' })
+    ).toMatchObject({ scrollY: 10 });
+
+    window.removeEventListener('beforeTest', onBefore);
+  });
+});
+
+describe('useScrollRestoration callbacks', () => {
+  let instance: ScrollRestorationInstance;
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderWithInstance = (options: ScrollRestorationOptions) =>
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={() => 'page'} {...options} />
+      </ScrollRestorationProvider>
+    );
+
+  // Saves on page hide are not throttled
+  const scrollAndSave = (y: number) => {
+    scrollY = y;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+      window.dispatchEvent(new Event('pagehide'));
+    });
+  };
+
+  it('should report saves with their details', () => {
+    const onSave = vi.fn();
+    const onSaved = vi.fn();
+    window.addEventListener('scrollRestorationSaved', onSaved);
+    renderWithInstance({ onSave });
+
+    scrollAndSave(300);
+
+    const expected = {
+      locationKey: 'page',
+      selector: 'window',
+      scrollX: 0,
+      scrollY: 300,
+      found: true,
+    };
+    expect(onSave).toHaveBeenCalledWith(expected);
+    expect(onSaved.mock.calls[0][0].detail).toEqual(expected);
+    window.removeEventListener('scrollRestorationSaved', onSaved);
+  });
+
+  it('should let onBeforeSave cancel or change saves', () => {
+    renderWithInstance({
+      onBeforeSave: ({ scrollY }) => {
+        if (scrollY === 0) return false;
+        return scrollY > 500 ? { scrollY: 500 } : undefined;
+      },
+    });
+
+    scrollAndSave(300);
+    expect(instance.cache.state.cached['page___window']).toMatchObject({
+      scrollY: 300,
+    });
+
+    scrollAndSave(800);
+    expect(instance.cache.state.cached['page___window']).toMatchObject({
+      scrollY: 500,
+    });
+
+    scrollAndSave(0);
+    expect(instance.cache.state.cached['page___window']).toMatchObject({
+      scrollY: 500,
+    });
+  });
+
+  it('should let onBeforeRestore cancel restores', () => {
+    const onRestore = vi.fn();
+    instance.cache.set({
+      cached: { page___window: { scrollX: 0, scrollY: 900 } },
+      next: {},
+    });
+    renderWithInstance({ onBeforeRestore: () => false, onRestore });
+
+    act(() => instance.restoreScrollPositions());
+
+    expect(window.scrollTo).not.toHaveBeenCalledWith(
+      expect.objectContaining({ top: 900 })
+    );
+    expect(onRestore).not.toHaveBeenCalled();
+  });
+
+  it('should report restored and missing elements', () => {
+    const onRestore = vi.fn();
+    const onRestoreFailed = vi.fn();
+    instance.cache.set({
+      cached: {
+        page___window: { scrollX: 0, scrollY: 900 },
+        'page___#missing': { scrollX: 0, scrollY: 40 },
+      },
+      next: {},
+    });
+    renderWithInstance({
+      onBeforeRestore: () => ({ scrollY: 450 }),
+      onRestore,
+      onRestoreFailed,
+    });
+
+    act(() => instance.restoreScrollPositions());
+
+    expect(window.scrollTo).toHaveBeenCalledWith({
+      top: 450,
+      left: 0,
+      behavior: undefined,
+    });
+    expect(onRestore).toHaveBeenCalledWith(
+      expect.objectContaining({ selector: 'window', scrollY: 450 })
+    );
+    expect(onRestoreFailed).toHaveBeenCalledWith({
+      locationKey: 'page',
+      selector: '#missing',
+      scrollX: 0,
+      scrollY: 40,
+      found: false,
+      reason: 'not-found',
+    });
+  });
+});
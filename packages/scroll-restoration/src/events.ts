@@ -0,0 +1,84 @@
+import {
+  SCROLL_SAVE_EVENT,
+  SCROLL_RESTORE_EVENT,
+  SCROLL_READY_EVENT,
+} from './constants';
+import {
+  ScrollBeforeHook,
+  ScrollEventDetail,
+  ScrollRestorationEventMap,
+  ScrollRestorationInstance,
+} from './shapes';
+
+// Type the events dispatched around saves and restores for window listeners
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-empty-interface, @typescript-eslint/no-empty-object-type
+  interface WindowEventMap extends ScrollRestorationEventMap {}
+}
+
+// Dispatch a window event when running in the browser, returns false when
+// a listener called preventDefault
+export const dispatchScrollEvent = (
+  type: string,
+  detail?: unknown,
+  cancelable = false
+): boolean => {
+  if (typeof window === 'undefined') return true;
+
+  const event =
+    detail === undefined
+      ? new Event(type)
+      : new CustomEvent(type, { detail, cancelable });
+  return window.dispatchEvent(event);
+};
+
+// Run a before-hook and its cancelable event. Both may change the
+// coordinates, returns undefined when either cancelled
+export const runBeforeHook = (
+  type: string,
+  hook: ScrollBeforeHook | undefined,
+  detail: ScrollEventDetail
+): ScrollEventDetail | undefined => {
+  const result = hook?.(detail);
+  if (result === false) return undefined;
+
+  // Listeners change the coordinates by writing to the detail
+  const next = { ...detail, ...result };
+  return dispatchScrollEvent(type, next, true) ? next : undefined;
+};
+
+/**
+ * Window events requesting a save or restore of an instance, shared instances
+ * also answer to the global events
+ */
+export const getInstanceEvents = (
+  instance: ScrollRestorationInstance,
+  request: 'save' | 'restore'
+): string[] => {
+  const global = request === 'save' ? SCROLL_SAVE_EVENT : SCROLL_RESTORE_EVENT;
+  return instance.shared
+    ? [instance.events[request], global]
+    : [instance.events[request]];
+};
+
+/**
+ * Trigger scroll position saving of the shared instances
+ */
+export function saveCurrentScrollPositions(): void {
+  dispatchScrollEvent(SCROLL_SAVE_EVENT);
+}
+
+/**
+ * Trigger scroll position restoring of the shared instances
+ */
+export function restoreScrollPositions(): void {
+  dispatchScrollEvent(SCROLL_RESTORE_EVENT);
+}
+
+/**
+ * Signal that the current route has rendered its content, releases restores
+ * waiting with the 'manual' ready option
+ */
+export function markRouteReady(): void {
+  dispatchScrollEvent(SCROLL_READY_EVENT);
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { findHashTarget, scrollToHashTarget } from './hash';
+
+describe('findHashTarget', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <h2 id="intro">Intro</h2>
+      <h2 id="über uns">About</h2>
+      <a name="legacy">Legacy</a>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should match ids, including encoded ones', () => {
+    expect(findHashTarget('#intro')?.textContent).toBe('Intro');
+    expect(findHashTarget('#%C3%BCber%20uns')?.textContent).toBe('About');
+  });
+
+  it('should fall back to named anchors', () => {
+    expect(findHashTarget('#legacy')?.textContent).toBe('Legacy');
+  });
+
+  it('should return null for empty or unknown hashes', () => {
+    expect(findHashTarget('')).toBeNull();
+    expect(findHashTarget('#')).toBeNull();
+    expect(findHashTarget('#missing')).toBeNull();
+    expect(findHashTarget('#%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('scrollToHashTarget', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep the offset above the target', () => {
+    const target = document.createElement('h2');
+    vi.spyOn(target, 'getBoundingClientRect').mockReturnValue({
+      top: 300,
+    } as DOMRect);
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(200);
+    const scrollTo = vi
+      .spyOn(window, 'scrollTo')
+      .mockImplementation(() => undefined);
+
+    scrollToHashTarget(target, { offset: 64, behavior: 'smooth' });
+    scrollToHashTarget(target, { offset: () => 100 });
+
+    expect(scrollTo).toHaveBeenNthCalledWith(1, {
+      top: 436,
+      behavior: 'smooth',
+    });
+    expect(scrollTo).toHaveBeenNthCalledWith(2, {
+      top: 400,
+      behavior: undefined,
+    });
+  });
+});
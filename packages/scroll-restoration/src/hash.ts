@@ -0,0 +1,46 @@
+import { ScrollRestorationOptions } from './shapes';
+import { resolveScrollBehavior } from './a11y';
+
+export type HashScrollOptions = {
+  offset?: ScrollRestorationOptions['hashOffset'];
+  behavior?: ScrollToOptions['behavior'];
+};
+
+/**
+ * Find the element targeted by a URL hash, matching its id first, then its name
+ */
+export const findHashTarget = (hash: string): Element | null => {
+  if (typeof document === 'undefined') return null;
+
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment) return null;
+
+  let name = fragment;
+  try {
+    name = decodeURIComponent(fragment);
+  } catch {
+    // Malformed escapes are matched verbatim, like browsers do
+  }
+
+  return (
+    document.getElementById(name) || document.getElementsByName(name)[0] || null
+  );
+};
+
+/**
+ * Scroll the window to a hash target, keeping the offset above it
+ */
+export const scrollToHashTarget = (
+  target: Element,
+  options: HashScrollOptions
+) => {
+  const offset =
+    typeof options.offset === 'function'
+      ? options.offset()
+      : options.offset || 0;
+
+  window.scrollTo({
+    top: target.getBoundingClientRect().top + window.scrollY - offset,
+    behavior: resolveScrollBehavior(options.behavior),
+  });
+};
@@ -28,6 +28,34 @@ export function functionalUpdate<T>(
     : updater;
 }
 
+// Helper to detect results of asynchronous storages
+export function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Promise<T>).then === 'function'
+  );
+}
+
+// Helper to chain on values of synchronous and asynchronous storages alike
+export function whenResolved<T, R>(
+  value: T | Promise<T>,
+  callback: (value: T) => R
+): R | Promise<R> {
+  return isPromise(value) ? value.then(callback) : callback(value);
+}
+
+// Helper to detect storage quota errors across browsers
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+      error.code === 22 ||
+      error.code === 1014)
+  );
+}
+
 export function throttle<T extends (...args: any[]) => any>(
   func: T,
   wait: number
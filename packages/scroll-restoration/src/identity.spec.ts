@@ -0,0 +1,94 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  MockInstance,
+} from 'vitest';
+import { getElementSelector } from './identity';
+
+describe('getElementSelector', () => {
+  let warn: MockInstance<Parameters<typeof console.warn>, void>;
+
+  beforeEach(() => {
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  const mount = (html: string) => {
+    document.body.innerHTML = html;
+    return document.body.querySelector('.target') as Element;
+  };
+
+  it('should prefer data-scroll-restoration-id over id', () => {
+    const element = mount(
+      '<div class="target" id="list" data-scroll-restoration-id="feed"></div>'
+    );
+
+    expect(getElementSelector(element)).toBe(
+      '[data-scroll-restoration-id="feed"]'
+    );
+  });
+
+  it('should use the id, quoting special characters', () => {
+    const element = mount('<div class="target" id="a&quot;b"></div>');
+    const selector = getElementSelector(element);
+
+    expect(selector).toBe('[id="a\\"b"]');
+    expect(document.querySelector(selector)).toBe(element);
+  });
+
+  it('should check the configured attributes in order', () => {
+    const element = mount(
+      '<div class="target" aria-label="Comments" data-testid="comments"></div>'
+    );
+
+    expect(
+      getElementSelector(element, {
+        identityAttributes: ['data-testid', 'aria-label'],
+      })
+    ).toBe('[data-testid="comments"]');
+  });
+
+  it('should use getElementKey before the structural path', () => {
+    const element = mount('<div class="target"></div>');
+    const getElementKey = vi.fn(() => '.target');
+
+    expect(getElementSelector(element, { getElementKey })).toBe('.target');
+    expect(getElementKey).toHaveBeenCalledWith(element);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should ignore keys that are not selectors matching the element', () => {
+    const element = mount('<section><div class="target"></div></section>');
+    const structural = 'section:nth-child(1) > div:nth-child(1)';
+
+    expect(getElementSelector(element, { getElementKey: () => 'list:1' })).toBe(
+      structural
+    );
+    expect(getElementSelector(element, { getElementKey: () => '.other' })).toBe(
+      structural
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('getElementKey returned "list:1"'),
+      element
+    );
+  });
+
+  it('should fall back to the structural path and warn once', () => {
+    const element = mount('<main><div class="target"></div></main>');
+
+    expect(getElementSelector(element)).toBe(
+      'main:nth-child(1) > div:nth-child(1)'
+    );
+    getElementSelector(element, { getElementKey: () => undefined });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { ElementIdentityOptions } from './shapes';
+import { getCssSelector } from './helpers';
+
+// Selectors already warned about, so every element is reported once
+const warnedSelectors = new Set<string>();
+
+const isDevelopment = () =>
+  typeof process !== 'undefined' && process.env.NODE_ENV !== 'production';
+
+// Warn in development, once per selector
+const warnOnce = (selector: string, message: string, element: Element) => {
+  if (!isDevelopment() || warnedSelectors.has(selector)) return;
+  warnedSelectors.add(selector);
+  console.warn(message, element);
+};
+
+/**
+ * Whether a selector is valid and matches the element
+ */
+export const matchesSelector = (element: Element, selector: string) => {
+  try {
+    return element.matches(selector);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Build an attribute selector, quoting the value
+ */
+export const attributeSelector = (name: string, value: string) =>
+  `[${name}="${value.replace(/["\\]/g, '\\$&')}"]`;
+
+/**
+ * Get a selector from the stable attributes or custom key of an element,
+ * undefined when it has none
+ */
+export const getStableSelector = (
+  element: Element,
+  options?: ElementIdentityOptions
+): string | undefined => {
+  const restorationId = element.getAttribute('data-scroll-restoration-id');
+  if (restorationId) {
+    return attributeSelector('data-scroll-restoration-id', restorationId);
+  }
+
+  if (element.id) {
+    return attributeSelector('id', element.id);
+  }
+
+  for (const name of options?.identityAttributes || []) {
+    const value = element.getAttribute(name);
+    if (value) return attributeSelector(name, value);
+  }
+
+  // Custom keys are used as selectors, so they must be valid and match
+  const customKey = options?.getElementKey?.(element);
+  if (customKey) {
+    if (matchesSelector(element, customKey)) return customKey;
+    warnOnce(
+      customKey,
+      `[scroll-restoration] getElementKey returned "${customKey}", which is not a selector matching the element. ` +
+        'Falling back to its structural path.',
+      element
+    );
+  }
+
+  return undefined;
+};
+
+/**
+ * Get a selector identifying a scrollable element across renders
+ * Stable attributes are preferred, the nth-child path is the last resort
+ */
+export const getElementSelector = (
+  element: Element,
+  options?: ElementIdentityOptions
+): string => {
+  const stableSelector = getStableSelector(element, options);
+  if (stableSelector) return stableSelector;
+
+  const selector = getCssSelector(element);
+
+  // Structural paths break as soon as siblings are added or reordered
+  warnOnce(
+    selector,
+    `[scroll-restoration] Identifying a scrolled element by its position "${selector}". ` +
+      'Add a data-scroll-restoration-id or id attribute to keep its position ' +
+      'when the page structure changes.',
+    element
+  );
+
+  return selector;
+};
@@ -1 +1,16 @@
 export * from './scroll-restoration';
+export * from './restorer';
+export * from './script';
+export * from './inline-script';
+export * from './instance';
+export * from './container';
+export * from './controller';
+export * from './boundary';
+export * from './a11y';
+export * from './devtools';
+export * from './debug';
+export * from './virtual';
+export * from './navigation';
+export * from './storage';
+export * from './schema';
+export * from './shapes';
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import {
+  getScrollRestorationScript,
+  getScrollRestorationScriptContent,
+} from './inline-script';
+import { ScrollRestorationScript } from './script';
+import { serializeCache } from './schema';
+
+const storageKey = 'll-scroll-restoration-cache';
+
+// Run the generated script like the browser would
+const runScript = (content: string) => new Function(content)();
+
+describe('getScrollRestorationScript', () => {
+  beforeEach(() => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    window.sessionStorage.clear();
+    window.localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  const savePosition = (key: string, scrollY: number, timestamp = Date.now()) =>
+    window.sessionStorage.setItem(
+      storageKey,
+      serializeCache({
+        cached: { [`${key}___window`]: { scrollX: 0, scrollY, timestamp } },
+        next: {},
+      })
+    );
+
+  it('should scroll the window to the position saved for the href', () => {
+    savePosition(window.location.href, 640);
+
+    runScript(getScrollRestorationScriptContent());
+
+    expect(window.scrollTo).toHaveBeenCalledWith(0, 640);
+  });
+
+  it('should prefer the history entry key like defaultGetKey', () => {
+    window.history.replaceState({ key: 'entry-7' }, '');
+    savePosition('entry-7', 320);
+
+    runScript(getScrollRestorationScriptContent());
+
+    expect(window.scrollTo).toHaveBeenCalledWith(0, 320);
+    window.history.replaceState(null, '');
+  });
+
+  it('should leave fresh navigations and expired positions alone', () => {
+    savePosition(window.location.href, 640, Date.now() - 10_000);
+
+    runScript(getScrollRestorationScriptContent({ maxAgeMs: 1000 }));
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+      { type: 'navigate' } as PerformanceNavigationTiming,
+    ]);
+    runScript(getScrollRestorationScriptContent());
+
+    expect(window.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should read the configured storage and key prefix', () => {
+    window.localStorage.setItem(
+      'app-cache',
+      serializeCache({
+        cached: {
+          [`${window.location.href}___window`]: { scrollX: 0, scrollY: 90 },
+        },
+        next: {},
+      })
+    );
+
+    runScript(
+      getScrollRestorationScriptContent({
+        storage: 'local',
+        storageKeyPrefix: 'app',
+      })
+    );
+
+    expect(window.scrollTo).toHaveBeenCalledWith(0, 90);
+  });
+
+  it('should add the nonce and keep options from closing the tag', () => {
+    const html = getScrollRestorationScript({
+      nonce: 'a"b',
+      storageKeyPrefix: '</script><script>alert(1)</script>',
+    });
+
+    expect(html.startsWith('<script nonce="a&quot;b">')).toBe(true);
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+  });
+
+  it('should render the script with its nonce', () => {
+    const html = renderToString(<ScrollRestorationScript nonce="abc" />);
+
+    expect(html).toContain('nonce="abc"');
+    expect(html).toContain(storageKey);
+  });
+});
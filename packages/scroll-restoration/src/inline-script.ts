@@ -0,0 +1,82 @@
+import { defaultStorageKeyPrefix, delimiter, windowKey } from './constants';
+import { getStorageKeys } from './cache';
+import { schemaVersion } from './schema';
+
+export type ScrollRestorationScriptOptions = {
+  /**
+   * Web Storage area the positions are persisted in, defaults to 'session'
+   * The script runs before any adapter exists, so only Web Storage is read
+   */
+  storage?: 'session' | 'local';
+
+  /**
+   * Prefix of the storage keys, defaults to 'll-scroll-restoration'
+   */
+  storageKeyPrefix?: string;
+
+  /**
+   * Saved positions older than this are not restored
+   */
+  maxAgeMs?: number;
+
+  /**
+   * Nonce allowing the script under a Content Security Policy
+   */
+  nonce?: string;
+};
+
+// Serialize a value for an inline script, '<' must not close the script tag
+const toScriptLiteral = (value: unknown) =>
+  JSON.stringify(value).replace(/</g, '\\u003c');
+
+// Escape a value for a double-quoted HTML attribute
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * Body of the pre-hydration script. It reads the persisted cache, computes the
+ * key like defaultGetKey and scrolls the window before the first paint, on
+ * reloads and back/forward navigations like the hook
+ */
+export function getScrollRestorationScriptContent(
+  options: ScrollRestorationScriptOptions = {}
+): string {
+  const config = {
+    storage: `${options.storage || 'session'}Storage`,
+    key: getStorageKeys(options.storageKeyPrefix || defaultStorageKeyPrefix)
+      .current,
+    version: schemaVersion,
+    suffix: delimiter + windowKey,
+    maxAgeMs: options.maxAgeMs ?? null,
+  };
+
+  return `(function(o){try{
+var t=window.performance&&performance.getEntriesByType&&performance.getEntriesByType('navigation')[0];
+if(t&&t.type!=='reload'&&t.type!=='back_forward')return;
+var p=JSON.parse(window[o.storage].getItem(o.key)||'null');
+if(!p||p.version!==o.version||!p.cached)return;
+var s=history.state,n=window.navigation&&navigation.currentEntry;
+var k=(s&&s.key)||(n&&n.key)||location.href;
+var e=p.cached[k+o.suffix];
+if(!e||!isFinite(e.scrollX)||!isFinite(e.scrollY))return;
+if(o.maxAgeMs!==null&&Date.now()-(e.timestamp||0)>o.maxAgeMs)return;
+if('scrollRestoration' in history)history.scrollRestoration='manual';
+var r=getComputedStyle(document.documentElement).direction==='rtl';
+window.scrollTo(r?-e.scrollX:e.scrollX,e.scrollY);
+}catch(x){}})(${toScriptLiteral(config)});`;
+}
+
+/**
+ * Pre-hydration script as an HTML string, for server templates
+ * Place it after the page content, so the document is tall enough to scroll
+ */
+export function getScrollRestorationScript(
+  options: ScrollRestorationScriptOptions = {}
+): string {
+  const nonce = options.nonce
+    ? ` nonce="${escapeAttribute(options.nonce)}"`
+    : '';
+  return `<script${nonce}>${getScrollRestorationScriptContent(
+    options
+  )}</script>`;
+}
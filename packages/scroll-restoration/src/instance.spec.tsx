@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, renderHook, act } from '@testing-library/react';
+import {
+  createScrollRestoration,
+  getDefaultScrollRestoration,
+  ScrollRestorationProvider,
+  useScrollRestorationInstance,
+} from './instance';
+import { ScrollRestoration } from './scroll-restoration';
+import { createMemoryStorage } from './storage';
+import { ScrollRestorationInstance } from './shapes';
+
+describe('createScrollRestoration', () => {
+  it('should create instances with their own cache and events', () => {
+    const a = createScrollRestoration({ storage: createMemoryStorage() });
+    const b = createScrollRestoration({ storage: createMemoryStorage() });
+
+    expect(a.cache).not.toBe(b.cache);
+    expect(a.events.save).not.toBe(b.events.save);
+    expect(a.events.restore).not.toBe(b.events.restore);
+  });
+
+  it('should share the default instance per storage', () => {
+    const storage = createMemoryStorage();
+
+    expect(getDefaultScrollRestoration(storage)).toBe(
+      getDefaultScrollRestoration(storage)
+    );
+    expect(getDefaultScrollRestoration(storage, 'other')).not.toBe(
+      getDefaultScrollRestoration(storage)
+    );
+  });
+});
+
+describe('ScrollRestorationProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to the global instance without a provider', () => {
+    const { result } = renderHook(() => useScrollRestorationInstance());
+    expect(result.current).toBe(getDefaultScrollRestoration());
+  });
+
+  it('should provide its own instance to the subtree', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+
+    const { result } = renderHook(() => useScrollRestorationInstance(), {
+      wrapper: ({ children }) => (
+        <ScrollRestorationProvider instance={instance}>
+          {children}
+        </ScrollRestorationProvider>
+      ),
+    });
+
+    expect(result.current).toBe(instance);
+  });
+
+  it('should keep saved positions apart between instances', () => {
+    const a = createScrollRestoration({ storage: createMemoryStorage() });
+    const b = createScrollRestoration({ storage: createMemoryStorage() });
+    const mount = (instance: ScrollRestorationInstance) => (
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={() => 'page'} />
+      </ScrollRestorationProvider>
+    );
+
+    render(
+      <>
+        {mount(a)}
+        {mount(b)}
+      </>
+    );
+
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+      a.saveCurrentScrollPositions();
+    });
+
+    expect(a.cache.state.cached['page___window']).toBeDefined();
+    expect(b.cache.state.cached['page___window']).toBeUndefined();
+    expect(b.cache.state.next['window']).toBeDefined();
+  });
+
+  it('should share entries with other tabs only while mounted', () => {
+    const instance = createScrollRestoration({
+      storage: createMemoryStorage(),
+    });
+    const set = instance.cache.set;
+
+    const { unmount } = render(
+      <ScrollRestorationProvider instance={instance} sync />
+    );
+    expect(instance.cache.set).not.toBe(set);
+
+    unmount();
+    expect(instance.cache.set).toBe(set);
+  });
+});
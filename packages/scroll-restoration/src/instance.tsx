@@ -0,0 +1,77 @@
+import * as React from 'react';
+import {
+  ScrollRestorationInstance,
+  ScrollRestorationInstanceOptions,
+} from './shapes';
+import {
+  createScrollRestoration,
+  getDefaultScrollRestoration,
+} from './registry';
+
+export {
+  createScrollRestoration,
+  getDefaultScrollRestoration,
+} from './registry';
+
+/**
+ * Context holding the instance used by the hooks below a provider
+ */
+export const ScrollRestorationContext =
+  React.createContext<ScrollRestorationInstance | null>(null);
+
+/**
+ * Resolve the instance for a hook: explicit storage options select a shared
+ * instance, otherwise the nearest provider or the global default is used
+ * The sync option starts sharing the entries of the resolved instance
+ */
+export function useScrollRestorationInstance(
+  options?: ScrollRestorationInstanceOptions
+): ScrollRestorationInstance {
+  const contextInstance = React.useContext(ScrollRestorationContext);
+
+  const instance =
+    options?.storage || options?.storageKeyPrefix
+      ? getDefaultScrollRestoration(options.storage, options.storageKeyPrefix)
+      : contextInstance || getDefaultScrollRestoration();
+
+  const sync = options?.sync;
+  React.useEffect(
+    () => (sync ? instance.cache.sync() : undefined),
+    [instance, sync]
+  );
+
+  return instance;
+}
+
+/**
+ * Provide an isolated scroll restoration instance to a subtree
+ */
+export function ScrollRestorationProvider(
+  props: ScrollRestorationInstanceOptions & {
+    instance?: ScrollRestorationInstance;
+    children?: React.ReactNode;
+  }
+) {
+  const [created] = React.useState(
+    () =>
+      props.instance ||
+      createScrollRestoration({
+        storage: props.storage,
+        storageKeyPrefix: props.storageKeyPrefix,
+      })
+  );
+  const instance = props.instance || created;
+
+  // Share entries with the other tabs while mounted
+  const sync = props.sync;
+  React.useEffect(
+    () => (sync ? instance.cache.sync() : undefined),
+    [instance, sync]
+  );
+
+  return (
+    <ScrollRestorationContext.Provider value={instance}>
+      {props.children}
+    </ScrollRestorationContext.Provider>
+  );
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, waitFor } from '@testing-library/react';
+import * as React from 'react';
+import { listenForPageHide, observeDetachedElements } from './lifecycle';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { ScrollRestorationInstance } from './shapes';
+
+// Wait for pending mutation observer callbacks
+const flushMutations = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('listenForPageHide', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report hiding, unloading and leaving the page', () => {
+    const onHide = vi.fn();
+    const cleanup = listenForPageHide(onHide);
+
+    window.dispatchEvent(new Event('pagehide'));
+    window.dispatchEvent(new Event('beforeunload'));
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(onHide).toHaveBeenCalledTimes(3);
+
+    cleanup();
+    window.dispatchEvent(new Event('pagehide'));
+    expect(onHide).toHaveBeenCalledTimes(3);
+  });
+
+  it('should ignore the page becoming visible', () => {
+    const onHide = vi.fn();
+    const cleanup = listenForPageHide(onHide);
+
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible');
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(onHide).not.toHaveBeenCalled();
+    cleanup();
+  });
+});
+
+describe('observeDetachedElements', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should report removals of matching elements only', async () => {
+    document.body.innerHTML = '<div id="tracked"></div><div id="other"></div>';
+    const onDetach = vi.fn();
+    const cleanup = observeDetachedElements(() => ['#tracked'], onDetach);
+
+    document.getElementById('other')!.remove();
+    await flushMutations();
+    expect(onDetach).not.toHaveBeenCalled();
+
+    document.getElementById('tracked')!.remove();
+    await flushMutations();
+    expect(onDetach).toHaveBeenCalledTimes(1);
+    expect(onDetach).toHaveBeenCalledWith(['#tracked']);
+    cleanup();
+  });
+
+  it('should only look up selectors matching removed nodes', async () => {
+    document.body.innerHTML = '<div id="tracked"></div><span></span>';
+    const cleanup = observeDetachedElements(() => ['#tracked'], vi.fn());
+    const querySelector = vi.spyOn(document, 'querySelector');
+
+    document.querySelector('span')!.remove();
+    await flushMutations();
+
+    expect(querySelector).toHaveBeenCalledTimes(1);
+    cleanup();
+  });
+
+  it('should report elements that left before observing', () => {
+    const onDetach = vi.fn();
+
+    observeDetachedElements(() => ['#tracked'], onDetach)();
+
+    expect(onDetach).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useScrollRestoration page lifecycle', () => {
+  let instance: ScrollRestorationInstance;
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderWithInstance = (children?: React.ReactNode) =>
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={() => 'page'} />
+        {children}
+      </ScrollRestorationProvider>
+    );
+
+  it('should save when the page is hidden and keep tracking', () => {
+    renderWithInstance();
+
+    scrollY = 300;
+    act(() => {
+      document.dispatchEvent(new Event('scroll'));
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    expect(instance.cache.state.cached['page___window']).toMatchObject({
+      scrollY: 300,
+    });
+    expect(instance.cache.state.next['window']).toBeDefined();
+  });
+
+  it('should save unmounted elements with their last position', async () => {
+    function Page({ open }: { open: boolean }) {
+      return open ? <div data-scroll-restoration-id="panel" /> : null;
+    }
+    const { rerender } = renderWithInstance(<Page open />);
+    const panel = document.querySelector('[data-scroll-restoration-id]')!;
+
+    panel.scrollTop = 120;
+    act(() => {
+      panel.dispatchEvent(new Event('scroll'));
+    });
+    rerender(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={() => 'page'} />
+        <Page open={false} />
+      </ScrollRestorationProvider>
+    );
+
+    await waitFor(() =>
+      expect(
+        instance.cache.state.cached[
+          'page___[data-scroll-restoration-id="panel"]'
+        ]
+      ).toMatchObject({ scrollY: 120 })
+    );
+  });
+
+  it('should save detached elements once and stop tracking them', async () => {
+    const onSave = vi.fn();
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration getKey={() => 'page'} onSave={onSave} />
+      </ScrollRestorationProvider>
+    );
+    const panel = document.createElement('div');
+    panel.setAttribute('data-scroll-restoration-id', 'panel');
+    document.body.append(panel);
+
+    panel.scrollTop = 120;
+    act(() => {
+      panel.dispatchEvent(new Event('scroll'));
+    });
+    panel.remove();
+    await waitFor(() => expect(onSave).toHaveBeenCalledTimes(1));
+
+    for (let i = 0; i < 5; i++) {
+      const span = document.createElement('span');
+      document.body.append(span);
+      span.remove();
+      await flushMutations();
+    }
+
+    expect(onSave).toHaveBeenCalledTimes(1);
+    expect(instance.cache.state.next).toEqual({});
+  });
+
+  it('should restore after the document was reloaded', async () => {
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+      { type: 'reload' } as PerformanceNavigationTiming,
+    ]);
+    instance.cache.set({
+      cached: { page___window: { scrollX: 0, scrollY: 900 } },
+      next: {},
+    });
+
+    renderWithInstance();
+
+    await waitFor(() =>
+      expect(window.scrollTo).toHaveBeenCalledWith({
+        top: 900,
+        left: 0,
+        behavior: undefined,
+      })
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Call onHide whenever the page is hidden or unloaded, which may be the last
+ * chance to save. Returns a cleanup function
+ */
+export const listenForPageHide = (onHide: () => void): (() => void) => {
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      onHide();
+    }
+  };
+
+  window.addEventListener('pagehide', onHide);
+  window.addEventListener('beforeunload', onHide);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  return () => {
+    window.removeEventListener('pagehide', onHide);
+    window.removeEventListener('beforeunload', onHide);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
+
+/**
+ * Call onDetach with the selectors whose element has left the document
+ * Only selectors matching removed nodes are looked up again, so unrelated
+ * removals cost no document queries. Returns a cleanup function
+ */
+export const observeDetachedElements = (
+  getSelectors: () => string[],
+  onDetach: (selectors: string[]) => void
+): (() => void) => {
+  // Report the candidates that are not in the document anymore
+  const reportDetached = (candidates: string[]) => {
+    const detached = candidates.filter(
+      (selector) => !document.querySelector(selector)
+    );
+    if (detached.length) {
+      onDetach(detached);
+    }
+  };
+
+  const handleMutations = (mutations: MutationRecord[]) => {
+    const removed: Element[] = [];
+    for (const mutation of mutations) {
+      mutation.removedNodes.forEach((node) => {
+        if (node instanceof Element) removed.push(node);
+      });
+    }
+    if (!removed.length) return;
+
+    const selectors = getSelectors();
+    if (!selectors.length) return;
+
+    reportDetached(
+      selectors.filter((selector) =>
+        removed.some(
+          (node) => node.matches(selector) || node.querySelector(selector)
+        )
+      )
+    );
+  };
+
+  const observer = new MutationObserver(handleMutations);
+  observer.observe(document.body, { childList: true, subtree: true });
+
+  // Elements may have left while nothing was observing, e.g. in the same
+  // commit that re-created the observer
+  reportDetached(getSelectors());
+
+  return () => {
+    // Removals of the same commit may still be queued
+    handleMutations(observer.takeRecords());
+    observer.disconnect();
+  };
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  defaultGetCurrentLocation,
+  getDocumentNavigationType,
+  historyPatchingNavigationListener,
+  navigationApiListener,
+} from './navigation';
+
+// Fake Navigation API driving history.pushState
+const createFakeNavigation = () => {
+  const navigation = Object.assign(new EventTarget(), {
+    currentEntry: { key: 'entry-1', url: window.location.href },
+    navigate: (url: string, key: string) => {
+      navigation.dispatchEvent(new Event('navigate'));
+      window.history.pushState({}, '', url);
+      navigation.currentEntry = { key, url };
+      navigation.dispatchEvent(new Event('navigatesuccess'));
+    },
+  });
+  return navigation;
+};
+
+describe('navigationApiListener', () => {
+  let navigation: ReturnType<typeof createFakeNavigation>;
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/start');
+    navigation = createFakeNavigation();
+    vi.stubGlobal('navigation', navigation);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should expose the entry key as the location state key', () => {
+    expect(defaultGetCurrentLocation().state?.key).toBe('entry-1');
+  });
+
+  it('should save before the transition and notify after it', () => {
+    const calls: string[] = [];
+    const onSave = () => calls.push(`save ${window.location.pathname}`);
+
+    const cleanup = navigationApiListener(
+      () => calls.push(`navigate ${window.location.pathname}`),
+      onSave
+    );
+    navigation.navigate('/next', 'entry-2');
+
+    expect(calls).toEqual(['save /start', 'navigate /next']);
+
+    cleanup();
+  });
+
+  it('should ignore navigations that keep the entry and URL', () => {
+    const onNavigate = vi.fn();
+    const cleanup = navigationApiListener(onNavigate, vi.fn());
+
+    navigation.dispatchEvent(new Event('navigate'));
+    navigation.dispatchEvent(new Event('navigatesuccess'));
+
+    expect(onNavigate).not.toHaveBeenCalled();
+    cleanup();
+  });
+
+  it('should stop listening on cleanup', () => {
+    const onNavigate = vi.fn();
+    navigationApiListener(onNavigate, vi.fn())();
+
+    navigation.navigate('/next', 'entry-2');
+
+    expect(onNavigate).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to popstate when the API is missing', () => {
+    vi.stubGlobal('navigation', undefined);
+    const addEventListener = vi.spyOn(window, 'addEventListener');
+
+    const cleanup = navigationApiListener(vi.fn(), vi.fn());
+
+    expect(addEventListener).toHaveBeenCalledWith(
+      'popstate',
+      expect.any(Function)
+    );
+    cleanup();
+  });
+});
+
+describe('historyPatchingNavigationListener', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/start');
+  });
+
+  it('should save before the URL changes and notify after', () => {
+    const calls: string[] = [];
+    const onSave = () => calls.push(`save ${window.location.pathname}`);
+
+    const cleanup = historyPatchingNavigationListener(
+      (_, type) => calls.push(`${type} ${window.location.pathname}`),
+      onSave
+    );
+    window.history.pushState({}, '', '/next');
+    window.history.replaceState({}, '', '/replaced');
+
+    expect(calls).toEqual([
+      'save /start',
+      'push /next',
+      'save /next',
+      'replace /replaced',
+    ]);
+
+    cleanup();
+  });
+
+  it('should ignore state-only updates', () => {
+    const onNavigate = vi.fn();
+    const cleanup = historyPatchingNavigationListener(onNavigate, vi.fn());
+
+    window.history.replaceState({ some: 'state' }, '');
+    window.history.pushState({}, '', '/start');
+
+    expect(onNavigate).not.toHaveBeenCalled();
+    cleanup();
+  });
+
+  it('should share one patch and unpatch after the last cleanup', () => {
+    const pushState = window.history.pushState;
+    const replaceState = window.history.replaceState;
+
+    const first = historyPatchingNavigationListener(vi.fn(), vi.fn());
+    const patched = window.history.pushState;
+    const second = historyPatchingNavigationListener(vi.fn(), vi.fn());
+
+    expect(patched).not.toBe(pushState);
+    expect(window.history.pushState).toBe(patched);
+
+    first();
+    expect(window.history.pushState).toBe(patched);
+
+    second();
+    expect(window.history.pushState).toBe(pushState);
+    expect(window.history.replaceState).toBe(replaceState);
+  });
+
+  it('should stay as a pass-through when patched over', () => {
+    const pushState = window.history.pushState;
+    const cleanup = historyPatchingNavigationListener(vi.fn(), vi.fn());
+    const ours = window.history.pushState;
+    const theirs: History['pushState'] = function (this: History, ...args) {
+      ours.apply(this, args);
+    };
+    window.history.pushState = theirs;
+
+    cleanup();
+    expect(window.history.pushState).toBe(theirs);
+
+    window.history.pushState = pushState;
+  });
+});
+
+describe('getDocumentNavigationType', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should map the navigation timing type', () => {
+    const getEntriesByType = vi.spyOn(performance, 'getEntriesByType');
+    const mockType = (type: NavigationTimingType) =>
+      getEntriesByType.mockReturnValue([
+        { type } as PerformanceNavigationTiming,
+      ]);
+
+    mockType('reload');
+    expect(getDocumentNavigationType()).toBe('reload');
+    mockType('back_forward');
+    expect(getDocumentNavigationType()).toBe('pop');
+    mockType('navigate');
+    expect(getDocumentNavigationType()).toBe('push');
+  });
+
+  it('should be unknown without navigation timing entries', () => {
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([]);
+    expect(getDocumentNavigationType()).toBeUndefined();
+  });
+});
@@ -0,0 +1,325 @@
+import { Location, NavigationListener, NavigationType } from './shapes';
+
+// Minimal Navigation API surface, not part of the DOM typings yet
+type NavigationHistoryEntry = { key: string; url: string | null };
+type NavigationApi = EventTarget & {
+  currentEntry: NavigationHistoryEntry | null;
+};
+type NavigateEvent = Event & {
+  navigationType?: 'push' | 'replace' | 'reload' | 'traverse';
+};
+
+// Get the Navigation API when the browser supports it
+const getNavigationApi = (): NavigationApi | undefined =>
+  typeof window !== 'undefined'
+    ? (window as Window & { navigation?: NavigationApi }).navigation
+    : undefined;
+
+/**
+ * Default function to get current location
+ * The Navigation API entry key is exposed as state.key when available
+ */
+export const defaultGetCurrentLocation = (): Location => {
+  if (typeof window === 'undefined') {
+    return { href: '', pathname: '', search: '', hash: '' };
+  }
+
+  const entryKey = getNavigationApi()?.currentEntry?.key;
+  const state = window.history.state;
+
+  return {
+    href: window.location.href,
+    pathname: window.location.pathname,
+    search: window.location.search,
+    hash: window.location.hash,
+    state:
+      entryKey && !state?.key
+        ? { ...(typeof state === 'object' ? state : {}), key: entryKey }
+        : state,
+  };
+};
+
+/**
+ * Type of the navigation that loaded the document, from the Navigation Timing API
+ */
+export const getDocumentNavigationType = (): NavigationType | undefined => {
+  if (typeof performance === 'undefined' || !performance.getEntriesByType) {
+    return undefined;
+  }
+
+  const [entry] = performance.getEntriesByType(
+    'navigation'
+  ) as PerformanceNavigationTiming[];
+
+  switch (entry?.type) {
+    case 'reload':
+      return 'reload';
+    case 'back_forward':
+      return 'pop';
+    case 'navigate':
+      return 'push';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Default getKey function, prefers the history entry key over the href
+ */
+export const defaultGetKey = (location: Location): string => {
+  return location.state?.key || location.href;
+};
+
+/**
+ * Navigation listener that uses popstate event
+ * No monkey patching, just listening to the standard navigation event
+ */
+export const mutationObserverNavigationListener: NavigationListener = (
+  onNavigate,
+  onBeforeNavigate
+) => {
+  // eslint-disable-next-line @typescript-eslint/no-empty-function
+  if (typeof window === 'undefined') return () => {};
+
+  // Initial location
+  let lastLocation = defaultGetCurrentLocation();
+
+  // We use a custom event to handle programmatic navigation
+  //const navigationEvent = new Event('scrollRestorationNavigate');
+  let navigationTimeout: number | null = null;
+
+  // Trigger our custom event when URL changes for any reason
+  const checkForUrlChange = (type: NavigationType) => {
+    const currentLocation = defaultGetCurrentLocation();
+
+    if (
+      currentLocation.pathname !== lastLocation.pathname ||
+      currentLocation.search !== lastLocation.search ||
+      currentLocation.hash !== lastLocation.hash
+    ) {
+      const prevLocation = lastLocation;
+
+      // Trigger scroll position save BEFORE updating location
+      onBeforeNavigate();
+
+      lastLocation = currentLocation;
+      onNavigate(prevLocation, type);
+    }
+  };
+
+  // Listen for popstate event
+  const handlePopState = () => {
+    checkForUrlChange('pop');
+  };
+
+  window.addEventListener('popstate', handlePopState);
+
+  // Setup MutationObserver to detect programmatic navigation
+  // This is a non-intrusive way to detect changes without monkey patching
+  const observer = new MutationObserver(() => {
+    // Debounce the check
+    if (navigationTimeout !== null) {
+      window.clearTimeout(navigationTimeout);
+    }
+
+    // Programmatic navigations cannot tell pushes from replacements
+    navigationTimeout = window.setTimeout(() => {
+      checkForUrlChange('push');
+      navigationTimeout = null;
+    }, 0);
+  });
+
+  // Start observing changes to the URL
+  observer.observe(
+    document.querySelector('head > title') || document.documentElement,
+    {
+      subtree: true,
+      childList: true,
+    }
+  );
+
+  return () => {
+    window.removeEventListener('popstate', handlePopState);
+    observer.disconnect();
+    if (navigationTimeout !== null) {
+      window.clearTimeout(navigationTimeout);
+    }
+  };
+};
+
+/**
+ * Navigation listener built on the Navigation API
+ * Saves before a navigation commits and reports it once it succeeded,
+ * falls back to the MutationObserver strategy where the API is missing
+ */
+export const navigationApiListener: NavigationListener = (
+  onNavigate,
+  onBeforeNavigate
+) => {
+  const navigation = getNavigationApi();
+  if (!navigation) {
+    return mutationObserverNavigationListener(onNavigate, onBeforeNavigate);
+  }
+
+  let lastLocation = defaultGetCurrentLocation();
+  let pendingType: NavigationType = 'push';
+
+  // Trigger scroll position save BEFORE the URL changes
+  const handleNavigate = (event: NavigateEvent) => {
+    pendingType =
+      event.navigationType === 'traverse'
+        ? 'pop'
+        : event.navigationType || 'push';
+    onBeforeNavigate();
+  };
+
+  const handleNavigateSuccess = () => {
+    const currentLocation = defaultGetCurrentLocation();
+
+    // State-only replacements keep both the entry and the URL
+    if (
+      currentLocation.href === lastLocation.href &&
+      currentLocation.state?.key === lastLocation.state?.key
+    ) {
+      return;
+    }
+
+    const prevLocation = lastLocation;
+    lastLocation = currentLocation;
+    onNavigate(prevLocation, pendingType);
+  };
+
+  navigation.addEventListener('navigate', handleNavigate);
+  navigation.addEventListener('navigatesuccess', handleNavigateSuccess);
+
+  return () => {
+    navigation.removeEventListener('navigate', handleNavigate);
+    navigation.removeEventListener('navigatesuccess', handleNavigateSuccess);
+  };
+};
+
+/**
+ * Default navigation listener, uses the Navigation API when available
+ */
+export const defaultNavigationListener = navigationApiListener;
+
+type HistoryMethod = History['pushState'];
+type HistoryPatchListener = {
+  before: (type: NavigationType) => void;
+  after: (type: NavigationType) => void;
+};
+
+// Patch state shared by every copy of the library through a global symbol
+type HistoryPatch = {
+  original: { pushState: HistoryMethod; replaceState: HistoryMethod };
+  patched: { pushState: HistoryMethod; replaceState: HistoryMethod };
+  listeners: Set<HistoryPatchListener>;
+};
+
+const historyPatchKey = Symbol.for('ll-scroll-restoration.history-patch');
+
+// Get the shared patch, installing it on first use
+const acquireHistoryPatch = (): HistoryPatch => {
+  const registry = window as unknown as Record<symbol, HistoryPatch>;
+  const existing = registry[historyPatchKey];
+  if (existing) return existing;
+
+  const wrap = (original: HistoryMethod, type: NavigationType): HistoryMethod =>
+    function (this: History, data, unused, url) {
+      // Only URL changes are navigations, state-only updates are not
+      const changesUrl =
+        url !== undefined &&
+        url !== null &&
+        new URL(url, window.location.href).href !== window.location.href;
+
+      if (changesUrl) {
+        patch.listeners.forEach((listener) => listener.before(type));
+      }
+      original.call(this, data, unused, url);
+      if (changesUrl) {
+        patch.listeners.forEach((listener) => listener.after(type));
+      }
+    };
+
+  const original = {
+    pushState: window.history.pushState,
+    replaceState: window.history.replaceState,
+  };
+  const patch: HistoryPatch = {
+    original,
+    patched: {
+      pushState: wrap(original.pushState, 'push'),
+      replaceState: wrap(original.replaceState, 'replace'),
+    },
+    listeners: new Set(),
+  };
+
+  window.history.pushState = patch.patched.pushState;
+  window.history.replaceState = patch.patched.replaceState;
+  registry[historyPatchKey] = patch;
+
+  return patch;
+};
+
+// Remove the shared patch once nobody listens anymore
+const releaseHistoryPatch = (patch: HistoryPatch) => {
+  if (patch.listeners.size > 0) return;
+
+  // Someone patched on top of us, stay in place as a pass-through
+  if (
+    window.history.pushState !== patch.patched.pushState ||
+    window.history.replaceState !== patch.patched.replaceState
+  ) {
+    return;
+  }
+
+  window.history.pushState = patch.original.pushState;
+  window.history.replaceState = patch.original.replaceState;
+  delete (window as unknown as Record<symbol, HistoryPatch>)[historyPatchKey];
+};
+
+/**
+ * Opt-in navigation listener wrapping history.pushState and replaceState
+ * Saves synchronously before the URL changes and reports the navigation after,
+ * the patch is shared between copies of the library and removed on cleanup
+ */
+export const historyPatchingNavigationListener: NavigationListener = (
+  onNavigate,
+  onBeforeNavigate
+) => {
+  // eslint-disable-next-line @typescript-eslint/no-empty-function
+  if (typeof window === 'undefined') return () => {};
+
+  let lastLocation = defaultGetCurrentLocation();
+
+  const notify = (type: NavigationType) => {
+    const currentLocation = defaultGetCurrentLocation();
+    if (currentLocation.href === lastLocation.href) return;
+
+    const prevLocation = lastLocation;
+    lastLocation = currentLocation;
+    onNavigate(prevLocation, type);
+  };
+
+  const listener: HistoryPatchListener = {
+    // Trigger scroll position save BEFORE the URL changes
+    before: onBeforeNavigate,
+    after: notify,
+  };
+
+  // Back and forward navigations do not go through the patched methods
+  const handlePopState = () => {
+    onBeforeNavigate();
+    notify('pop');
+  };
+
+  const patch = acquireHistoryPatch();
+  patch.listeners.add(listener);
+  window.addEventListener('popstate', handlePopState);
+
+  return () => {
+    window.removeEventListener('popstate', handlePopState);
+    patch.listeners.delete(listener);
+    releaseHistoryPatch(patch);
+  };
+};
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  holdRestores,
+  isScrollable,
+  retryUntilScrollable,
+  waitForRestoreHolds,
+  waitForRouteReady,
+} from './readiness';
+import { markRouteReady } from './events';
+import { createScrollRestoration } from './registry';
+import { Location } from './shapes';
+
+const location: Location = {
+  href: '/feed',
+  pathname: '/feed',
+  search: '',
+  hash: '',
+};
+
+// Wait for pending mutation observer callbacks
+const flushMutations = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('isScrollable', () => {
+  it('should compare positions with the scrollable area', () => {
+    const element = document.createElement('div');
+    vi.spyOn(element, 'scrollHeight', 'get').mockReturnValue(1000);
+    vi.spyOn(element, 'clientHeight', 'get').mockReturnValue(400);
+
+    expect(isScrollable(element, { scrollX: 0, scrollY: 600 })).toBe(true);
+    expect(isScrollable(element, { scrollX: 0, scrollY: 601 })).toBe(false);
+    expect(isScrollable(element, { scrollX: 10, scrollY: 0 })).toBe(false);
+  });
+});
+
+describe('retryUntilScrollable', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should retry on DOM changes until the attempt succeeds', async () => {
+    const attempt = vi.fn(() => document.querySelectorAll('li').length > 1);
+    const onTimeout = vi.fn();
+    retryUntilScrollable(attempt, 1000, onTimeout);
+
+    document.body.append(document.createElement('li'));
+    await flushMutations();
+    document.body.append(document.createElement('li'));
+    await flushMutations();
+    document.body.append(document.createElement('li'));
+    await flushMutations();
+
+    expect(attempt).toHaveBeenCalledTimes(2);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should stop once the user scrolls', async () => {
+    const attempt = vi.fn(() => false);
+    const onTimeout = vi.fn();
+    const onAbort = vi.fn();
+    retryUntilScrollable(attempt, 50, onTimeout, onAbort);
+
+    window.dispatchEvent(new Event('wheel'));
+    document.body.append(document.createElement('li'));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(attempt).not.toHaveBeenCalled();
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the timeout', async () => {
+    const onTimeout = vi.fn();
+    retryUntilScrollable(() => false, 20, onTimeout);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('waitForRouteReady', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should continue right away without a ready option', () => {
+    const onReady = vi.fn();
+    waitForRouteReady(undefined, location, 1000, onReady);
+
+    expect(onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for markRouteReady in manual mode', () => {
+    const onReady = vi.fn();
+    waitForRouteReady('manual', location, 1000, onReady);
+
+    expect(onReady).not.toHaveBeenCalled();
+    markRouteReady();
+    markRouteReady();
+
+    expect(onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue right away when marked ready before waiting', () => {
+    const onReady = vi.fn();
+    waitForRouteReady('manual', location, 1000, onReady, true);
+
+    expect(onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the ready promise, even when it rejects', async () => {
+    const onReady = vi.fn();
+    const ready = vi.fn(() => Promise.reject(new Error('offline')));
+    waitForRouteReady(ready, location, 1000, onReady);
+
+    await vi.waitFor(() => expect(onReady).toHaveBeenCalledTimes(1));
+    expect(ready).toHaveBeenCalledWith(location);
+  });
+
+  it('should continue after the timeout', () => {
+    const onReady = vi.fn();
+    waitForRouteReady('manual', location, 1000, onReady);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not continue once cancelled', () => {
+    const onReady = vi.fn();
+    waitForRouteReady('manual', location, 1000, onReady)();
+
+    markRouteReady();
+    vi.advanceTimersByTime(1000);
+
+    expect(onReady).not.toHaveBeenCalled();
+  });
+});
+
+describe('waitForRestoreHolds', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait until every hold is released', () => {
+    const instance = createScrollRestoration();
+    const onReleased = vi.fn();
+    const releaseFirst = holdRestores(instance);
+    const releaseSecond = holdRestores(instance);
+    waitForRestoreHolds(instance, 1000, onReleased);
+
+    releaseFirst();
+    vi.advanceTimersByTime(16);
+    expect(onReleased).not.toHaveBeenCalled();
+
+    releaseSecond();
+    vi.advanceTimersByTime(16);
+    expect(onReleased).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue after the timeout', () => {
+    const instance = createScrollRestoration();
+    const onReleased = vi.fn();
+    holdRestores(instance);
+    waitForRestoreHolds(instance, 1000, onReleased);
+
+    vi.advanceTimersByTime(1000);
+    vi.advanceTimersByTime(16);
+
+    expect(onReleased).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  CacheEntry,
+  Location,
+  ScrollRestorationInstance,
+  ScrollRestorationOptions,
+} from './shapes';
+import { SCROLL_READY_EVENT } from './constants';
+import { getScrollAxis } from './axis';
+
+// Input that means the user took over scrolling
+const userScrollEvents = ['wheel', 'touchmove', 'keydown', 'mousedown'];
+
+/**
+ * Whether a saved position fits in the scrollable area of an element,
+ * or of the window when no element is given. Only restored axes count
+ */
+export const isScrollable = (
+  element: Element | null,
+  entry: CacheEntry
+): boolean => {
+  // The root element scrolls the window
+  const target = element || document.documentElement;
+  const maxX = target.scrollWidth - target.clientWidth;
+  const maxY = target.scrollHeight - target.clientHeight;
+
+  const axis = getScrollAxis(element);
+
+  return (
+    (axis === 'y' || maxX >= entry.scrollX) &&
+    (axis === 'x' || maxY >= entry.scrollY)
+  );
+};
+
+/**
+ * Run attempt whenever the document changes until it returns true
+ * Gives up once the user scrolls, calling onAbort, or once the timeout passes,
+ * calling onTimeout. Returns a function cancelling the retries
+ */
+export const retryUntilScrollable = (
+  attempt: () => boolean,
+  timeoutMs: number,
+  onTimeout: () => void,
+  onAbort?: () => void
+): (() => void) => {
+  let done = false;
+  const observers: Array<ResizeObserver | MutationObserver> = [];
+
+  const stop = () => {
+    if (done) return;
+    done = true;
+    clearTimeout(timeout);
+    observers.forEach((observer) => observer.disconnect());
+    userScrollEvents.forEach((type) =>
+      window.removeEventListener(type, abort, true)
+    );
+  };
+
+  const abort = () => {
+    if (done) return;
+    stop();
+    onAbort?.();
+  };
+
+  const retry = () => {
+    if (!done && attempt()) stop();
+  };
+
+  const timeout = setTimeout(() => {
+    if (done) return;
+    stop();
+    onTimeout();
+  }, timeoutMs);
+
+  // Content growing or being added may make the position reachable
+  if (typeof ResizeObserver !== 'undefined') {
+    const resizeObserver = new ResizeObserver(retry);
+    resizeObserver.observe(document.documentElement);
+    observers.push(resizeObserver);
+  }
+  const mutationObserver = new MutationObserver(retry);
+  mutationObserver.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+  });
+  observers.push(mutationObserver);
+
+  userScrollEvents.forEach((type) =>
+    window.addEventListener(type, abort, { capture: true, passive: true })
+  );
+
+  return stop;
+};
+
+/**
+ * Wait until a route is ready according to the ready option, marked tells
+ * whether markRouteReady() was already called for the navigation
+ * Calls onReady at most once and returns a function cancelling the wait
+ */
+export const waitForRouteReady = (
+  ready: ScrollRestorationOptions['ready'],
+  location: Location,
+  timeoutMs: number,
+  onReady: () => void,
+  marked = false
+): (() => void) => {
+  let done = false;
+
+  const finish = () => {
+    if (done) return;
+    cancel();
+    onReady();
+  };
+
+  const cancel = () => {
+    done = true;
+    clearTimeout(timeout);
+    window.removeEventListener(SCROLL_READY_EVENT, finish);
+  };
+
+  // Never wait forever for a signal that might not come
+  const timeout = setTimeout(finish, timeoutMs);
+
+  if (ready === 'manual') {
+    if (marked) {
+      finish();
+    } else {
+      window.addEventListener(SCROLL_READY_EVENT, finish);
+    }
+  } else if (ready) {
+    // Failed loads still restore, the page shows whatever it rendered
+    Promise.resolve(ready(location)).then(finish, finish);
+  } else {
+    finish();
+  }
+
+  return cancel;
+};
+
+// Holds delaying the restores of an instance, and the restores waiting
+const restoreHolds = new WeakMap<
+  ScrollRestorationInstance,
+  { holds: Set<object>; waiting: Set<() => void> }
+>();
+
+const getRestoreHolds = (instance: ScrollRestorationInstance) => {
+  let entry = restoreHolds.get(instance);
+  if (!entry) {
+    entry = { holds: new Set(), waiting: new Set() };
+    restoreHolds.set(instance, entry);
+  }
+  return entry;
+};
+
+/**
+ * Delay the restores of an instance, e.g. while a Suspense fallback shows
+ * Returns a function releasing the hold, restores run once no hold is left
+ */
+export const holdRestores = (
+  instance: ScrollRestorationInstance
+): (() => void) => {
+  const entry = getRestoreHolds(instance);
+  const hold = {};
+  entry.holds.add(hold);
+
+  return () => {
+    if (!entry.holds.delete(hold) || entry.holds.size) return;
+    entry.waiting.forEach((onReleased) => onReleased());
+  };
+};
+
+/**
+ * Wait until no hold is left on an instance, or until the timeout passes
+ * Calls onReleased at most once and returns a function cancelling the wait
+ */
+export const waitForRestoreHolds = (
+  instance: ScrollRestorationInstance,
+  timeoutMs: number,
+  onReleased: () => void
+): (() => void) => {
+  const entry = getRestoreHolds(instance);
+  if (!entry.holds.size) {
+    onReleased();
+    return () => undefined;
+  }
+
+  // Released content is committed, wait a frame for it to be laid out
+  let frame = 0;
+  const release = () => {
+    cancel();
+    frame = requestAnimationFrame(onReleased);
+  };
+
+  const cancel = () => {
+    clearTimeout(timeout);
+    cancelAnimationFrame(frame);
+    entry.waiting.delete(release);
+  };
+
+  const timeout = setTimeout(release, timeoutMs);
+  entry.waiting.add(release);
+
+  return cancel;
+};
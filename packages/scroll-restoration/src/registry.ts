@@ -0,0 +1,81 @@
+import {
+  ScrollRestorationInstance,
+  ScrollRestorationInstanceOptions,
+  ScrollStorage,
+} from './shapes';
+import {
+  defaultStorageKeyPrefix,
+  SCROLL_SAVE_EVENT,
+  SCROLL_RESTORE_EVENT,
+} from './constants';
+import { createCache } from './cache';
+import { createSessionStorage } from './storage';
+import { dispatchScrollEvent } from './events';
+
+// Counter used to give every instance its own event names
+let instanceCount = 0;
+
+// Create an instance dispatching its own events
+const createInstance = (
+  options: ScrollRestorationInstanceOptions,
+  shared: boolean
+): ScrollRestorationInstance => {
+  const id = ++instanceCount;
+  const events = {
+    save: `${SCROLL_SAVE_EVENT}:${id}`,
+    restore: `${SCROLL_RESTORE_EVENT}:${id}`,
+  };
+  const cache = createCache(
+    options.storage || createSessionStorage(),
+    options.storageKeyPrefix
+  );
+
+  return {
+    cache,
+    scrolledElements: new WeakSet(),
+    paused: false,
+    events,
+    shared,
+    saveCurrentScrollPositions: () => dispatchScrollEvent(events.save),
+    restoreScrollPositions: () => dispatchScrollEvent(events.restore),
+  };
+};
+
+/**
+ * Create an isolated scroll restoration instance with its own cache and events
+ * Its entries are shared with other tabs while cache.sync() is active
+ */
+export function createScrollRestoration(
+  options?: ScrollRestorationInstanceOptions
+): ScrollRestorationInstance {
+  return createInstance(options || {}, false);
+}
+
+// Shared instances per storage adapter and key prefix, created on first use
+const defaultStorage = createSessionStorage();
+const sharedInstances = new WeakMap<
+  ScrollStorage,
+  Map<string, ScrollRestorationInstance>
+>();
+
+/**
+ * Get the shared instance for a storage adapter and key prefix
+ * Shared instances answer to the global save and restore events
+ */
+export function getDefaultScrollRestoration(
+  storage: ScrollStorage = defaultStorage,
+  storageKeyPrefix = defaultStorageKeyPrefix
+): ScrollRestorationInstance {
+  let byPrefix = sharedInstances.get(storage);
+  if (!byPrefix) {
+    byPrefix = new Map();
+    sharedInstances.set(storage, byPrefix);
+  }
+
+  let instance = byPrefix.get(storageKeyPrefix);
+  if (!instance) {
+    instance = createInstance({ storage, storageKeyPrefix }, true);
+    byPrefix.set(storageKeyPrefix, instance);
+  }
+  return instance;
+}
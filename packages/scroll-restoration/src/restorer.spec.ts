@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createScrollRestorer, ScrollRestorer } from './restorer';
+import { createScrollRestoration } from './registry';
+import { createMemoryStorage } from './storage';
+import { markRouteReady, saveCurrentScrollPositions } from './events';
+import {
+  Location,
+  NavigationListener,
+  ScrollRestorationInstance,
+} from './shapes';
+
+const location: Location = {
+  href: 'http://localhost/list',
+  pathname: '/list',
+  search: '',
+  hash: '',
+};
+
+describe('createScrollRestorer', () => {
+  let instance: ScrollRestorationInstance;
+  let restorer: ScrollRestorer;
+  let scrollY = 0;
+
+  beforeEach(() => {
+    scrollY = 0;
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    restorer = createScrollRestorer({
+      instance,
+      getKey: () => 'list',
+      getCurrentLocation: () => location,
+      navigationListener: () => () => undefined,
+    });
+    vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    restorer.stop();
+    vi.restoreAllMocks();
+  });
+
+  const scrollWindow = (y: number) => {
+    scrollY = y;
+    document.dispatchEvent(new Event('scroll'));
+  };
+
+  it('should track scrolling between start and stop', () => {
+    restorer.start();
+    restorer.start();
+    scrollWindow(250);
+    restorer.save();
+
+    expect(instance.cache.state.cached['list___window']).toMatchObject({
+      scrollY: 250,
+    });
+
+    restorer.stop();
+    scrollWindow(400);
+    restorer.save();
+
+    expect(instance.cache.state.cached['list___window']).toMatchObject({
+      scrollY: 250,
+    });
+  });
+
+  it('should restore the saved positions of the current location', () => {
+    restorer.start();
+    scrollWindow(250);
+    restorer.save();
+
+    restorer.restore();
+
+    expect(window.scrollTo).toHaveBeenCalledWith(
+      expect.objectContaining({ top: 250 })
+    );
+  });
+
+  it('should keep tracking after a save', () => {
+    restorer.start();
+    scrollWindow(250);
+    restorer.save();
+    scrollWindow(400);
+    restorer.save();
+
+    expect(instance.cache.state.cached['list___window']).toMatchObject({
+      scrollY: 400,
+    });
+  });
+
+  it('should ignore global save requests on isolated instances', () => {
+    restorer.start();
+    scrollWindow(250);
+    saveCurrentScrollPositions();
+
+    expect(instance.cache.state.cached['list___window']).toBeUndefined();
+    expect(Object.keys(instance.cache.state.next)).toEqual(['window']);
+  });
+
+  it('should save its own instance before navigating', () => {
+    let beforeNavigate: () => void = () => undefined;
+    restorer.setOptions({
+      instance,
+      getKey: () => 'list',
+      getCurrentLocation: () => location,
+      navigationListener: (_onNavigate, onBeforeNavigate) => {
+        beforeNavigate = onBeforeNavigate;
+        return () => undefined;
+      },
+    });
+    restorer.start();
+    scrollWindow(250);
+    beforeNavigate();
+
+    expect(instance.cache.state.cached['list___window']).toMatchObject({
+      scrollY: 250,
+    });
+  });
+
+  it('should log restoration steps to the debug logger', () => {
+    const debug = vi.fn();
+    restorer.setOptions({
+      instance,
+      getKey: () => 'list',
+      getCurrentLocation: () => location,
+      debug,
+    });
+    restorer.start();
+    scrollWindow(250);
+    restorer.save();
+    restorer.restore();
+
+    expect(debug.mock.calls.map(([event]) => event)).toEqual([
+      expect.objectContaining({
+        type: 'save',
+        locationKey: 'list',
+        selector: 'window',
+        scrollY: 250,
+        timestamp: expect.any(Number),
+      }),
+      expect.objectContaining({ type: 'restore', scrollY: 250 }),
+    ]);
+  });
+
+  it('should share the cache with other tabs until stopped', () => {
+    const set = instance.cache.set;
+    restorer.setOptions({
+      instance,
+      getKey: () => 'list',
+      getCurrentLocation: () => location,
+      navigationListener: () => () => undefined,
+      sync: true,
+    });
+
+    restorer.start();
+    expect(instance.cache.set).not.toBe(set);
+
+    restorer.stop();
+    expect(instance.cache.set).toBe(set);
+  });
+
+  it('should not restore after being stopped', async () => {
+    let navigate: Parameters<NavigationListener>[0] = () => undefined;
+    restorer.setOptions({
+      instance,
+      getKey: () => 'list',
+      getCurrentLocation: () => location,
+      navigationListener: (onNavigate) => {
+        navigate = onNavigate;
+        return () => undefined;
+      },
+    });
+    restorer.start();
+    scrollWindow(250);
+    restorer.save();
+
+    navigate(location, 'pop');
+    restorer.stop();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(window.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should keep readiness signalled before the restore waits', async () => {
+    let navigate: Parameters<NavigationListener>[0] = () => undefined;
+    restorer.setOptions({
+      instance,
+      getKey: () => 'list',
+      getCurrentLocation: () => location,
+      navigationListener: (onNavigate) => {
+        navigate = onNavigate;
+        return () => undefined;
+      },
+      ready: 'manual',
+      restoreTimeoutMs: 5000,
+    });
+    restorer.start();
+    scrollWindow(250);
+    restorer.save();
+
+    navigate(location, 'pop');
+    markRouteReady();
+
+    await vi.waitFor(
+      () =>
+        expect(window.scrollTo).toHaveBeenCalledWith(
+          expect.objectContaining({ top: 250 })
+        ),
+      { timeout: 500 }
+    );
+  });
+
+  it('should apply new options without restarting', () => {
+    const addEventListener = vi.spyOn(document, 'addEventListener');
+    restorer.start();
+
+    restorer.setOptions({
+      instance,
+      getKey: () => 'other',
+      getCurrentLocation: () => location,
+    });
+    scrollWindow(120);
+    restorer.save();
+
+    expect(
+      addEventListener.mock.calls.filter(([type]) => type === 'scroll')
+    ).toHaveLength(1);
+    expect(instance.cache.state.cached['other___window']).toMatchObject({
+      scrollY: 120,
+    });
+  });
+});
@@ -0,0 +1,832 @@
+import {
+  CacheEntry,
+  CacheValue,
+  Location,
+  NavigationType,
+  ScrollDebugEvent,
+  ScrollEventDetail,
+  ScrollRestoreFailedDetail,
+  ScrollRestorationInstance,
+  ScrollRestorationOptions,
+  ScrollRestorationRule,
+  ScrollRestoreTarget,
+  ScrollSaveRequest,
+} from './shapes';
+import {
+  windowKey,
+  delimiter,
+  defaultRestoreTimeoutMs,
+  devtoolsAttribute,
+  SCROLL_BEFORE_SAVE_EVENT,
+  SCROLL_SAVED_EVENT,
+  SCROLL_BEFORE_RESTORE_EVENT,
+  SCROLL_RESTORED_EVENT,
+  SCROLL_RESTORE_FAILED_EVENT,
+  SCROLL_READY_EVENT,
+} from './constants';
+import { throttle } from './helpers';
+import { getElementSelector } from './identity';
+import { applyScrollPosition, readScrollPosition } from './axis';
+import { pruneCache } from './cache';
+import { listenForPageHide, observeDetachedElements } from './lifecycle';
+import { findScrollAnchor, resolveScrollAnchor } from './anchor';
+import { findRule, ruleAppliesTo } from './rules';
+import { findHashTarget, HashScrollOptions, scrollToHashTarget } from './hash';
+import {
+  isScrollable,
+  retryUntilScrollable,
+  waitForRestoreHolds,
+  waitForRouteReady,
+} from './readiness';
+import { getDefaultScrollRestoration } from './registry';
+import {
+  dispatchScrollEvent,
+  getInstanceEvents,
+  runBeforeHook,
+} from './events';
+import { logDebug } from './debug';
+import {
+  announce,
+  defaultFocusSelector,
+  focusElement,
+  getFocusedSelector,
+} from './a11y';
+import {
+  defaultGetCurrentLocation,
+  defaultGetKey,
+  defaultNavigationListener,
+  getDocumentNavigationType,
+} from './navigation';
+
+export type ScrollRestorerOptions = ScrollRestorationOptions & {
+  /**
+   * Instance holding the cache and event names, defaults to the shared
+   * instance of the storage options
+   */
+  instance?: ScrollRestorationInstance;
+};
+
+/**
+ * Scroll restoration for a document, independent of any UI framework
+ */
+export type ScrollRestorer = {
+  instance: ScrollRestorationInstance;
+
+  /**
+   * Track scrolling and restore on navigations, does nothing when started
+   */
+  start: () => void;
+
+  /**
+   * Stop tracking and cancel pending restores
+   */
+  stop: () => void;
+
+  /**
+   * Save the tracked positions of the current location now
+   */
+  save: () => void;
+
+  /**
+   * Restore the saved positions of the current location, or only those of a
+   * key or element. Resolves whether every position was found and reached
+   */
+  restore: (target?: ScrollRestoreTarget) => Promise<boolean>;
+
+  /**
+   * Replace the options, a new navigationListener applies from the next start
+   */
+  setOptions: (options: ScrollRestorerOptions) => void;
+};
+
+// Instances that already restored the positions of the loaded document
+const restoredDocuments = new WeakSet<ScrollRestorationInstance>();
+
+// Back/forward and reload navigations restore, others start fresh
+const defaultRestoreOn: NavigationType[] = ['pop', 'reload'];
+
+// Decide whether a navigation restores saved positions
+const shouldRestore = (
+  restoreOn: ScrollRestorationOptions['restoreOn'] = defaultRestoreOn,
+  location: Location,
+  type?: NavigationType
+): boolean => {
+  // Navigations of unknown type restore as they always did
+  if (!type) return true;
+
+  return typeof restoreOn === 'function'
+    ? restoreOn(type, location)
+    : restoreOn.includes(type);
+};
+
+// Scroll the window to the hash target or to the top
+const scrollToHashOrTop = (
+  target: Element | null,
+  hashOptions: HashScrollOptions
+) => {
+  if (target) {
+    scrollToHashTarget(target, hashOptions);
+  } else {
+    window.scrollTo(0, 0);
+  }
+};
+
+/**
+ * Create a scroll restorer. It owns tracking, keying and caching, framework
+ * bindings only start it, stop it and pass the latest options
+ */
+export const createScrollRestorer = (
+  initialOptions: ScrollRestorerOptions = {}
+): ScrollRestorer => {
+  // Options are read when used, so updates apply without restarting
+  let options = initialOptions;
+  const instance =
+    options.instance ||
+    getDefaultScrollRestoration(options.storage, options.storageKeyPrefix);
+  const cache = instance.cache;
+
+  const getKey = (location: Location) =>
+    (options.getKey || defaultGetKey)(location);
+  const getCurrentLocation = () =>
+    (options.getCurrentLocation || defaultGetCurrentLocation)();
+  const getLimits = () => ({
+    maxEntries: options.maxEntries,
+    maxAgeMs: options.maxAgeMs,
+    maxEntriesPerLocation: options.maxEntriesPerLocation,
+  });
+  const getRestoreTimeoutMs = () =>
+    options.restoreTimeoutMs ?? defaultRestoreTimeoutMs;
+  const log = (event: Omit<ScrollDebugEvent, 'timestamp'>) =>
+    logDebug(options.debug, event);
+
+  // Rules override the hash offset and scroll behavior of their locations
+  const getHashOptions = (rule?: ScrollRestorationRule): HashScrollOptions => ({
+    offset: rule?.offset ?? options.hashOffset,
+    behavior:
+      rule?.behavior ?? options.hashScrollBehavior ?? options.scrollBehavior,
+  });
+
+  // Cancel restores still waiting for readiness or for content
+  let cancelReady = () => undefined as void;
+  let cancelRetry = () => undefined as void;
+
+  // Cleanup of the running listeners, null when stopped
+  let cleanup: (() => void) | null = null;
+
+  // The latest location and the type of navigation that led to it
+  let location = getCurrentLocation();
+  let navigationType: NavigationType | undefined;
+
+  // Whether markRouteReady() was called since the latest navigation, routes
+  // with cached data may signal before the restore starts waiting
+  let routeMarkedReady = false;
+
+  // Selectors saved by default, focus is saved with the window entry even
+  // when the window never scrolled
+  const getSavedSelectors = () => {
+    const selectors = Object.keys(cache.state.next);
+    return options.manageFocus && !cache.state.next[windowKey]
+      ? [...selectors, windowKey]
+      : selectors;
+  };
+
+  // Write tracked positions to the cache, page lifecycle saves keep tracking
+  // them as the user may come back to the page
+  const writeScrollPositions = (
+    currentLocation: Location,
+    keepTracking = false,
+    locationKey = getKey(currentLocation),
+    selectors = getSavedSelectors()
+  ) => {
+    if (typeof window === 'undefined') return;
+
+    const anchorAttribute = options.anchorAttribute;
+
+    for (const elementSelector of selectors) {
+      const entry =
+        cache.state.next[elementSelector] ||
+        (elementSelector === windowKey ? { scrollX: NaN, scrollY: NaN } : null);
+      if (!entry) continue;
+      let found = true;
+
+      if (elementSelector === windowKey) {
+        Object.assign(entry, readScrollPosition(null));
+        if (anchorAttribute) {
+          entry.anchor = findScrollAnchor(null, anchorAttribute);
+        }
+        if (options.manageFocus) {
+          entry.focus = getFocusedSelector(options);
+        }
+      } else if (elementSelector) {
+        // Unmounted elements keep the position recorded while scrolling
+        const element = document.querySelector(elementSelector);
+        if (element) {
+          Object.assign(entry, readScrollPosition(element));
+          if (anchorAttribute) {
+            entry.anchor = findScrollAnchor(element, anchorAttribute);
+          }
+        } else {
+          found = false;
+        }
+      }
+      entry.timestamp = Date.now();
+
+      // Elements never seen scrolling have no position to save
+      let detail: ScrollEventDetail | undefined;
+      if (Number.isFinite(entry.scrollX) && Number.isFinite(entry.scrollY)) {
+        detail = runBeforeHook(SCROLL_BEFORE_SAVE_EVENT, options.onBeforeSave, {
+          locationKey,
+          selector: elementSelector,
+          scrollX: entry.scrollX,
+          scrollY: entry.scrollY,
+          found,
+        });
+      }
+
+      // Anchors no longer describe coordinates changed by hooks
+      const saved: CacheEntry = { ...entry };
+      if (
+        detail &&
+        (detail.scrollX !== entry.scrollX || detail.scrollY !== entry.scrollY)
+      ) {
+        saved.scrollX = detail.scrollX;
+        saved.scrollY = detail.scrollY;
+        delete saved.anchor;
+      }
+
+      cache.set((c) => {
+        const next = { ...c.next };
+        if (!keepTracking) {
+          delete next[elementSelector];
+        }
+        if (!detail) return { ...c, next };
+
+        return pruneCache(
+          {
+            ...c,
+            next,
+            cached: {
+              ...c.cached,
+              [[locationKey, elementSelector].join(delimiter)]: saved,
+            },
+          },
+          getLimits()
+        );
+      });
+
+      if (detail) {
+        options.onSave?.(detail);
+        log({ type: 'save', ...detail });
+        dispatchScrollEvent(SCROLL_SAVED_EVENT, detail);
+      }
+    }
+  };
+
+  // Handle saving scroll positions
+  const saveScrollPositions = throttle((currentLocation: Location) => {
+    writeScrollPositions(currentLocation);
+  }, 100);
+
+  // Move focus off the previous page and announce the new one, only after
+  // navigations as manual restores keep the user where they are
+  const finishNavigation = (
+    currentLocation: Location,
+    type: NavigationType | undefined,
+    hashTarget: Element | null,
+    restoredFocus?: string
+  ) => {
+    if (!type) return;
+
+    if (options.manageFocus) {
+      const restored = restoredFocus
+        ? document.querySelector(restoredFocus)
+        : null;
+      if (!focusElement(restored) && !focusElement(hashTarget)) {
+        focusElement(
+          document.querySelector(options.focusSelector || defaultFocusSelector)
+        );
+      }
+    }
+
+    const announceNavigation = options.announceNavigation;
+    if (announceNavigation) {
+      announce(
+        typeof announceNavigation === 'function'
+          ? announceNavigation(currentLocation)
+          : document.title
+      );
+    }
+  };
+
+  // Restore saved positions, resolves whether every position was found and
+  // reached. Targeted restores apply the positions of a key or element only,
+  // they leave the window, tracking and focus alone and always wait for content
+  const restoreSaved = (
+    currentLocation: Location,
+    type?: NavigationType,
+    target?: ScrollRestoreTarget
+  ): Promise<boolean> => {
+    if (typeof window === 'undefined') return Promise.resolve(false);
+
+    // Only the latest navigation restore keeps retrying
+    if (!target) cancelRetry();
+
+    const restoreMode = target ? 'retry' : options.restoreMode || 'immediate';
+    const anchorAttribute = options.anchorAttribute;
+    const hashTarget = target ? null : findHashTarget(currentLocation.hash);
+    const rule = findRule(options.rules, currentLocation);
+    const hashOptions = getHashOptions(rule);
+    const scrollBehavior = rule?.behavior ?? options.scrollBehavior;
+
+    // Scrollers kept at the top or left untouched by the matching rule
+    const isOverridden = (elementSelector: string) =>
+      Boolean(
+        rule?.mode &&
+          rule.mode !== 'restore' &&
+          ruleAppliesTo(rule, elementSelector)
+      );
+    const leaveWindow = rule?.mode === 'none' && isOverridden(windowKey);
+
+    // Fresh navigations do not restore, they start at the top or the hash
+    if (!shouldRestore(options.restoreOn, currentLocation, type)) {
+      if (target) return Promise.resolve(false);
+      if (!leaveWindow) scrollToHashOrTop(hashTarget, hashOptions);
+      log({
+        type: 'reset',
+        locationKey: getKey(currentLocation),
+        navigationType: type,
+      });
+      cache.set((c) => ({ ...c, next: {} }));
+      instance.scrolledElements = new WeakSet();
+      finishNavigation(currentLocation, type, hashTarget);
+      return Promise.resolve(false);
+    }
+
+    // Asynchronous storages have to be loaded before the first restore
+    if (!cache.hydrated) {
+      return cache
+        .hydrate()
+        .then(() => restoreSaved(currentLocation, type, target));
+    }
+
+    const locationKey = target?.key ?? getKey(currentLocation);
+    const targetSelector = target?.element
+      ? getElementSelector(target.element, options)
+      : target?.selector;
+    const now = Date.now();
+    const restored: CacheValue = {};
+    const pending = new Map<string, CacheEntry>();
+    const payloads = new Map<string, CacheEntry>();
+    let windowRestored = leaveWindow;
+    let restoredFocus: string | undefined;
+
+    // Preferred hash targets win over the saved window position
+    const skipWindow = Boolean(hashTarget && options.preferHash);
+
+    // Expired entries must not be restored
+    cache.set((c) => pruneCache(c, getLimits(), now));
+
+    for (const cacheKey in cache.state.cached) {
+      const entry = cache.state.cached[cacheKey]!;
+      const [key, elementSelector] = cacheKey.split(delimiter);
+
+      if (
+        key === locationKey &&
+        (!targetSelector || elementSelector === targetSelector)
+      ) {
+        restored[cacheKey] = { ...entry, timestamp: now };
+
+        // Entries with custom payloads are restored by their owners, targeted
+        // restores only decide whether they may
+        if (entry.payload !== undefined) {
+          if (target && elementSelector && !isOverridden(elementSelector)) {
+            payloads.set(elementSelector, entry);
+          }
+          continue;
+        }
+
+        if (elementSelector && isOverridden(elementSelector)) {
+          const element =
+            rule?.mode === 'top' && elementSelector !== windowKey
+              ? document.querySelector(elementSelector)
+              : null;
+          if (element) {
+            element.scrollLeft = 0;
+            element.scrollTop = 0;
+          }
+          continue;
+        }
+
+        if (elementSelector === windowKey) {
+          restoredFocus = entry.focus;
+          if (skipWindow) continue;
+          windowRestored = true;
+        }
+        if (elementSelector) {
+          pending.set(elementSelector, entry);
+        }
+      }
+    }
+
+    // Whether every pending position was found, allowed and reached
+    let reached = pending.size > 0 || payloads.size > 0;
+
+    payloads.forEach((entry, elementSelector) => {
+      const detail = runBeforeHook(
+        SCROLL_BEFORE_RESTORE_EVENT,
+        options.onBeforeRestore,
+        {
+          locationKey,
+          selector: elementSelector,
+          scrollX: entry.scrollX,
+          scrollY: entry.scrollY,
+          found: true,
+        }
+      );
+      if (!detail) reached = false;
+    });
+
+    // Report positions that could not be restored
+    const reportFailure = (detail: ScrollRestoreFailedDetail) => {
+      reached = false;
+      options.onRestoreFailed?.(detail);
+      log({ type: 'restore-failed', ...detail });
+      dispatchScrollEvent(SCROLL_RESTORE_FAILED_EVENT, detail);
+    };
+
+    // Apply the positions that fit, or all of them when forced
+    const applyPending = (force: boolean): boolean => {
+      pending.forEach((entry, elementSelector) => {
+        const element =
+          elementSelector === windowKey
+            ? null
+            : document.querySelector(elementSelector);
+
+        // Elements may still be rendered while retrying
+        if (elementSelector !== windowKey && !element) {
+          if (force) {
+            pending.delete(elementSelector);
+            reportFailure({
+              locationKey,
+              selector: elementSelector,
+              scrollX: entry.scrollX,
+              scrollY: entry.scrollY,
+              found: false,
+              reason: 'not-found',
+            });
+          }
+          return;
+        }
+
+        // Anchored entries follow their anchor, pixels are the fallback
+        let position = entry;
+        if (anchorAttribute && entry.anchor) {
+          const scrollY = resolveScrollAnchor(
+            element,
+            anchorAttribute,
+            entry.anchor
+          );
+          if (scrollY !== undefined) {
+            position = { ...entry, scrollY };
+          } else if (!force) {
+            return;
+          }
+        }
+        const fits = isScrollable(element, position);
+        if (!force && !fits) return;
+        pending.delete(elementSelector);
+
+        const detail = runBeforeHook(
+          SCROLL_BEFORE_RESTORE_EVENT,
+          options.onBeforeRestore,
+          {
+            locationKey,
+            selector: elementSelector,
+            scrollX: position.scrollX,
+            scrollY: position.scrollY,
+            found: true,
+          }
+        );
+        if (!detail) {
+          reached = false;
+          return;
+        }
+
+        applyScrollPosition(element, detail, scrollBehavior);
+
+        // Retries that timed out leave positions clamped by short content
+        if (force && !fits && restoreMode === 'retry') {
+          reportFailure({ ...detail, reason: 'timeout' });
+        } else {
+          reached = reached && fits;
+          options.onRestore?.(detail);
+          log({ type: 'restore', ...detail });
+          dispatchScrollEvent(SCROLL_RESTORED_EVENT, detail);
+        }
+      });
+
+      return pending.size === 0;
+    };
+
+    const result = new Promise<boolean>((resolve) => {
+      if (restoreMode !== 'retry') {
+        applyPending(true);
+        resolve(reached);
+        return;
+      }
+      if (applyPending(false)) {
+        resolve(reached);
+        return;
+      }
+
+      // Content loading after render would clamp positions, retry until it fits
+      const cancel = retryUntilScrollable(
+        () => {
+          const done = applyPending(false);
+          if (done) resolve(reached);
+          return done;
+        },
+        getRestoreTimeoutMs(),
+        () => {
+          applyPending(true);
+          resolve(reached);
+        },
+        () => resolve(false)
+      );
+      if (!target) {
+        cancelRetry = () => {
+          cancel();
+          resolve(false);
+        };
+      }
+    });
+
+    // Restored entries count as recently used
+    cache.set((c) => ({
+      ...c,
+      next: target ? c.next : {},
+      cached: { ...c.cached, ...restored },
+    }));
+    if (target) return result;
+
+    if (!windowRestored) {
+      scrollToHashOrTop(hashTarget, hashOptions);
+    }
+    instance.scrolledElements = new WeakSet();
+    finishNavigation(currentLocation, type, hashTarget, restoredFocus);
+    return result;
+  };
+
+  // Restores requested by navigations and events are throttled, trailing
+  // calls after stop() are dropped
+  const restoreScrollPositions = throttle(
+    (currentLocation: Location, type?: NavigationType) => {
+      if (cleanup) restoreSaved(currentLocation, type);
+    },
+    100
+  );
+
+  // Handle navigation
+  const handleNavigation = (_prevLocation: Location, type?: NavigationType) => {
+    // A newer navigation supersedes restores still waiting
+    cancelReady();
+    cancelRetry();
+
+    // Update location reference
+    location = getCurrentLocation();
+    navigationType = type;
+    routeMarkedReady = false;
+    log({
+      type: 'navigate',
+      locationKey: getKey(location),
+      navigationType: type,
+    });
+
+    // Wait for new DOM to be ready, stopping cancels the frames too
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => {
+        // Then for the route to signal readiness, if configured
+        cancelReady = waitForRouteReady(
+          options.ready,
+          location,
+          getRestoreTimeoutMs(),
+          () => {
+            // And for boundaries to show their content instead of fallbacks
+            cancelReady = waitForRestoreHolds(
+              instance,
+              getRestoreTimeoutMs(),
+              () => restoreScrollPositions(location, type)
+            );
+          },
+          routeMarkedReady
+        );
+      });
+    });
+    cancelReady = () => cancelAnimationFrame(frame);
+  };
+
+  const start = () => {
+    if (typeof window === 'undefined' || cleanup) return;
+
+    // Set manual scroll restoration
+    if ('scrollRestoration' in window.history) {
+      window.history.scrollRestoration = 'manual';
+    }
+
+    // Selectors of scrolled elements, computed once per element
+    const selectors = new WeakMap<EventTarget, string>();
+
+    // Track scroll events
+    const onScroll = (event: Event) => {
+      // Positions are not recorded while paused, e.g. during animations
+      if (!event.target || instance.paused) return;
+
+      // The devtools panel inspects the state, it is not part of it
+      if (
+        event.target instanceof Element &&
+        event.target.closest(`[${devtoolsAttribute}]`)
+      ) {
+        return;
+      }
+
+      let elementSelector = selectors.get(event.target) || '';
+
+      if (event.target === document || event.target === window) {
+        elementSelector = windowKey;
+      } else if (!elementSelector) {
+        elementSelector = getElementSelector(event.target as Element, options);
+        selectors.set(event.target, elementSelector);
+      }
+
+      instance.scrolledElements.add(event.target);
+
+      // Saves stop tracking, scrollers are tracked again on their next scroll
+      if (!cache.state.next[elementSelector]) {
+        cache.set((c) => ({
+          ...c,
+          next: {
+            ...c.next,
+            [elementSelector]: {
+              scrollX: NaN,
+              scrollY: NaN,
+            },
+          },
+        }));
+      }
+
+      // Remember element positions, unmounted elements can no longer be read
+      const trackedEntry = cache.state.next[elementSelector];
+      if (trackedEntry && elementSelector !== windowKey) {
+        Object.assign(
+          trackedEntry,
+          readScrollPosition(event.target as Element)
+        );
+      }
+    };
+
+    // Create stable event handler for scroll saving, controllers save right
+    // away and keep tracking, optionally under another key
+    const handleScrollSave = (event: Event) => {
+      if (event instanceof CustomEvent) {
+        const request = event.detail as ScrollSaveRequest;
+        writeScrollPositions(location, true, request.key);
+      } else {
+        saveScrollPositions(location);
+      }
+    };
+
+    // Create stable event handler for scroll restoring
+    const handleScrollRestore = () => {
+      restoreScrollPositions(location);
+    };
+
+    // Same-page hash changes jump natively, redo the jump with the offset
+    const handleHashChange = () => {
+      location = getCurrentLocation();
+
+      const target = findHashTarget(location.hash);
+      const savedKey = [getKey(location), windowKey].join(delimiter);
+
+      // Traversals back to a saved entry are restored instead
+      if (target && !cache.state.cached[savedKey]) {
+        scrollToHashTarget(
+          target,
+          getHashOptions(findRule(options.rules, location))
+        );
+      }
+    };
+
+    // Saves that keep tracking, the user may stay on the page
+    const handleLifecycleSave = () => {
+      writeScrollPositions(location, true);
+    };
+
+    // Isolated instances only answer to their own events
+    const saveEvents = getInstanceEvents(instance, 'save');
+    const restoreEvents = getInstanceEvents(instance, 'restore');
+
+    // Listen for scroll events
+    document.addEventListener('scroll', onScroll, true);
+
+    // Listen for same-page hash changes
+    window.addEventListener('hashchange', handleHashChange);
+
+    // Remember readiness signals sent before the restore waits for them
+    const handleRouteReady = () => {
+      routeMarkedReady = true;
+    };
+    window.addEventListener(SCROLL_READY_EVENT, handleRouteReady);
+
+    // Listen for the page being hidden or unloaded
+    const cleanupPageHide = listenForPageHide(handleLifecycleSave);
+
+    // Tracked elements leaving the document are saved with their last
+    // position once, later scrollers with the same selector are tracked anew
+    const cleanupDetached = observeDetachedElements(
+      () =>
+        Object.keys(cache.state.next).filter(
+          (elementSelector) => elementSelector !== windowKey
+        ),
+      (detached) => writeScrollPositions(location, false, undefined, detached)
+    );
+
+    // Listen for save requests
+    saveEvents.forEach((type) =>
+      window.addEventListener(type, handleScrollSave)
+    );
+
+    // Listen for restore requests
+    restoreEvents.forEach((type) =>
+      window.addEventListener(type, handleScrollRestore)
+    );
+
+    // Setup navigation listener
+    const cleanupNavigation = (
+      options.navigationListener || defaultNavigationListener
+    )(handleNavigation, instance.saveCurrentScrollPositions);
+
+    // Share positions with other tabs while started
+    const cleanupSync = options.sync ? cache.sync() : undefined;
+
+    // Scrollers mounting after the navigation restore under its type
+    const restoreLate = (target: ScrollRestoreTarget) =>
+      restoreSaved(location, navigationType, target);
+    instance.restoreLate = restoreLate;
+
+    cleanup = () => {
+      document.removeEventListener('scroll', onScroll, true);
+      window.removeEventListener('hashchange', handleHashChange);
+      window.removeEventListener(SCROLL_READY_EVENT, handleRouteReady);
+      cleanupPageHide();
+      cleanupDetached();
+      saveEvents.forEach((type) =>
+        window.removeEventListener(type, handleScrollSave)
+      );
+      restoreEvents.forEach((type) =>
+        window.removeEventListener(type, handleScrollRestore)
+      );
+      cleanupNavigation();
+      cleanupSync?.();
+      if (instance.restoreLate === restoreLate) {
+        instance.restoreLate = undefined;
+      }
+      cancelReady();
+      cancelRetry();
+    };
+
+    // Initialize with current location
+    location = getCurrentLocation();
+    navigationType = getDocumentNavigationType();
+
+    // Start loading asynchronous storages early
+    cache.hydrate();
+
+    // Reloading the document restores its positions once per instance
+    if (
+      (navigationType === 'reload' || navigationType === 'pop') &&
+      !restoredDocuments.has(instance)
+    ) {
+      restoredDocuments.add(instance);
+      handleNavigation(location, navigationType);
+    }
+  };
+
+  const stop = () => {
+    cleanup?.();
+    cleanup = null;
+  };
+
+  return {
+    instance,
+    start,
+    stop,
+    save: () => writeScrollPositions(location),
+    restore: (target) =>
+      target
+        ? restoreSaved(getCurrentLocation(), undefined, target)
+        : restoreSaved(location),
+    setOptions: (nextOptions) => {
+      options = nextOptions;
+    },
+  };
+};
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { findRule, matchesRule, ruleAppliesTo } from './rules';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { getElementSelector } from './identity';
+import {
+  Location,
+  ScrollRestorationInstance,
+  ScrollRestorationRule,
+} from './shapes';
+
+const at = (pathname: string): Location => ({
+  href: `https://example.com${pathname}`,
+  pathname,
+  search: '',
+  hash: '',
+});
+
+describe('matchesRule', () => {
+  it('should match pathname patterns', () => {
+    const rule = { match: '/posts/:id' };
+
+    expect(matchesRule(rule, at('/posts/42'))).toBe(true);
+    expect(matchesRule(rule, at('/posts/42/'))).toBe(true);
+    expect(matchesRule(rule, at('/posts/42/comments'))).toBe(false);
+    expect(matchesRule(rule, at('/posts'))).toBe(false);
+  });
+
+  it('should match nested paths with a trailing wildcard', () => {
+    const rule = { match: '/checkout/*' };
+
+    expect(matchesRule(rule, at('/checkout'))).toBe(true);
+    expect(matchesRule(rule, at('/checkout/shipping/address'))).toBe(true);
+    expect(matchesRule(rule, at('/checkouts'))).toBe(false);
+  });
+
+  it('should match regular expressions and predicates', () => {
+    expect(matchesRule({ match: /^\/modal/ }, at('/modal/login'))).toBe(true);
+    expect(
+      matchesRule({ match: (location) => location.pathname === '/' }, at('/'))
+    ).toBe(true);
+  });
+
+  it('should pick the first matching rule', () => {
+    const rules: ScrollRestorationRule[] = [
+      { match: '/docs/intro', mode: 'restore' },
+      { match: '/docs/*', mode: 'top' },
+    ];
+
+    expect(findRule(rules, at('/docs/intro'))).toBe(rules[0]);
+    expect(findRule(rules, at('/docs/api'))).toBe(rules[1]);
+    expect(findRule(rules, at('/blog'))).toBeUndefined();
+  });
+});
+
+describe('ruleAppliesTo', () => {
+  it('should apply to the window and containers by id or selector', () => {
+    const rule = { match: '/', containers: ['window', 'sidebar', '#list'] };
+
+    expect(ruleAppliesTo(rule, 'window')).toBe(true);
+    expect(ruleAppliesTo(rule, '[data-scroll-restoration-id="sidebar"]')).toBe(
+      true
+    );
+    expect(ruleAppliesTo(rule, '#list')).toBe(true);
+    expect(ruleAppliesTo(rule, '#other')).toBe(false);
+    expect(ruleAppliesTo({ match: '/' }, '#other')).toBe(true);
+  });
+
+  it('should match selector containers against the tracked element', () => {
+    document.body.innerHTML = '<div id="list"></div><div id="other"></div>';
+    const rule = { match: '/', containers: ['#list'] };
+
+    expect(
+      ruleAppliesTo(
+        rule,
+        getElementSelector(document.getElementById('list') as Element)
+      )
+    ).toBe(true);
+    expect(
+      ruleAppliesTo(
+        rule,
+        getElementSelector(document.getElementById('other') as Element)
+      )
+    ).toBe(false);
+    expect(ruleAppliesTo(rule, 'window')).toBe(false);
+
+    document.body.innerHTML = '';
+  });
+});
+
+describe('useScrollRestoration rules', () => {
+  let instance: ScrollRestorationInstance;
+
+  beforeEach(() => {
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    instance.cache.set({
+      cached: {
+        '/checkout/payment___window': { scrollX: 0, scrollY: 700 },
+        '/checkout/payment___[id="summary"]': { scrollX: 0, scrollY: 80 },
+        '/posts/1___window': { scrollX: 0, scrollY: 400 },
+      },
+      next: {},
+    });
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  const renderAt = (pathname: string, rules: ScrollRestorationRule[]) =>
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration
+          getKey={(location) => location.pathname}
+          getCurrentLocation={() => at(pathname)}
+          rules={rules}
+        />
+      </ScrollRestorationProvider>
+    );
+
+  it('should start at the top on matching routes', () => {
+    document.body.innerHTML = '<div id="summary"></div>';
+    renderAt('/checkout/payment', [
+      { match: '/checkout/*', mode: 'top', containers: ['window'] },
+    ]);
+
+    act(() => instance.restoreScrollPositions());
+
+    expect(window.scrollTo).toHaveBeenCalledWith(0, 0);
+    expect(window.scrollTo).not.toHaveBeenCalledWith(
+      expect.objectContaining({ top: 700 })
+    );
+    // Containers outside the rule are restored as usual
+    expect(document.getElementById('summary')!.scrollTop).toBe(80);
+  });
+
+  it('should leave positions untouched with mode none', () => {
+    renderAt('/checkout/payment', [{ match: '/checkout/*', mode: 'none' }]);
+
+    act(() => instance.restoreScrollPositions());
+
+    expect(window.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should use the scroll behavior of the matching rule', () => {
+    renderAt('/posts/1', [{ match: '/posts/:id', behavior: 'smooth' }]);
+
+    act(() => instance.restoreScrollPositions());
+
+    expect(window.scrollTo).toHaveBeenCalledWith({
+      top: 400,
+      left: 0,
+      behavior: 'smooth',
+    });
+  });
+
+  it('should prefer the rule behavior over hashScrollBehavior', () => {
+    document.body.innerHTML = '<h2 id="setup"></h2>';
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        <ScrollRestoration
+          getKey={(location) => location.pathname}
+          getCurrentLocation={() => ({ ...at('/docs'), hash: '#setup' })}
+          hashScrollBehavior="smooth"
+          rules={[{ match: '/docs', behavior: 'auto' }]}
+        />
+      </ScrollRestorationProvider>
+    );
+
+    act(() => {
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(window.scrollTo).toHaveBeenCalledWith(
+      expect.objectContaining({ behavior: 'auto' })
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { Location, ScrollRestorationRule } from './shapes';
+import { windowKey } from './constants';
+import { attributeSelector, matchesSelector } from './identity';
+
+// Escape characters with a meaning in regular expressions
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// Compiled pathname patterns, rules are usually declared once
+const patterns = new Map<string, RegExp>();
+
+// Compile a pathname pattern, a '*' segment matches anything and ':param'
+// one segment
+const compilePattern = (pattern: string): RegExp => {
+  let regExp = patterns.get(pattern);
+  if (!regExp) {
+    const source = pattern
+      .split('/')
+      .map((segment) =>
+        segment === '*'
+          ? '.*'
+          : segment.startsWith(':')
+            ? '[^/]+'
+            : escapeRegExp(segment).replace(/\*/g, '[^/]*')
+      )
+      .join('/');
+    // Trailing slashes are optional, '/docs/*' matches '/docs' as well
+    regExp = new RegExp(
+      `^${source.replace(/\/$/, '').replace(/\/\.\*$/, '(?:/.*)?')}/?$`
+    );
+    patterns.set(pattern, regExp);
+  }
+  return regExp;
+};
+
+/**
+ * Whether a rule matches a location
+ */
+export const matchesRule = (
+  rule: ScrollRestorationRule,
+  location: Location
+): boolean => {
+  if (typeof rule.match === 'function') return rule.match(location);
+  if (rule.match instanceof RegExp) return rule.match.test(location.pathname);
+  return compilePattern(rule.match).test(location.pathname);
+};
+
+/**
+ * Find the first rule matching a location
+ */
+export const findRule = (
+  rules: ScrollRestorationRule[] | undefined,
+  location: Location
+): ScrollRestorationRule | undefined =>
+  rules?.find((rule) => matchesRule(rule, location));
+
+// Element a tracked selector resolves to, selectors read from storage may be
+// invalid
+const resolveSelector = (elementSelector: string): Element | null => {
+  try {
+    return document.querySelector(elementSelector);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the mode of a rule applies to the scroller with the given selector
+ * Selector containers are matched against the element, tracked selectors are
+ * usually written differently, e.g. '[id="list"]' for '#list'
+ */
+export const ruleAppliesTo = (
+  rule: ScrollRestorationRule,
+  elementSelector: string
+): boolean => {
+  if (!rule.containers) return true;
+  if (elementSelector === windowKey) {
+    return rule.containers.includes(windowKey);
+  }
+
+  const element = resolveSelector(elementSelector);
+  return rule.containers.some(
+    (container) =>
+      container === elementSelector ||
+      attributeSelector('data-scroll-restoration-id', container) ===
+        elementSelector ||
+      (!!element && matchesSelector(element, container))
+  );
+};
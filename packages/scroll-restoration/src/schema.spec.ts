@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { deserializeCache, schemaVersion, serializeCache } from './schema';
+import { createCache, getStorageKeys } from './cache';
+import { createMemoryStorage } from './storage';
+
+const legacyKey = getStorageKeys().legacy;
+
+describe('deserializeCache', () => {
+  it('should round-trip the current version', () => {
+    const state = {
+      cached: { page___window: { scrollX: 0, scrollY: 40, timestamp: 1 } },
+      next: {},
+    };
+
+    const raw = serializeCache(state);
+
+    expect(JSON.parse(raw).version).toBe(schemaVersion);
+    expect(deserializeCache(raw)).toEqual(state);
+  });
+
+  it('should keep custom payloads', () => {
+    const state = {
+      cached: {
+        'page___virtual:feed': {
+          scrollX: 0,
+          scrollY: 0,
+          payload: { index: 42, offset: -12 },
+        },
+      },
+      next: {},
+    };
+
+    expect(deserializeCache(serializeCache(state))).toEqual(state);
+  });
+
+  it('should drop entries with malformed anchors', () => {
+    const raw = JSON.stringify({
+      version: schemaVersion,
+      cached: {
+        a___window: {
+          scrollX: 0,
+          scrollY: 10,
+          anchor: { key: 'x', offset: 4 },
+        },
+        b___window: { scrollX: 0, scrollY: 10, anchor: { key: 1 } },
+      },
+      next: {},
+    });
+
+    expect(Object.keys(deserializeCache(raw)!.cached)).toEqual(['a___window']);
+  });
+
+  it('should migrate unversioned v2 payloads', () => {
+    const v2 = {
+      cached: { page___window: { scrollX: 0, scrollY: 40 } },
+      next: { window: { scrollX: null, scrollY: null } },
+    };
+
+    expect(deserializeCache(JSON.stringify(v2))).toEqual({
+      cached: { page___window: { scrollX: 0, scrollY: 40 } },
+      next: {},
+    });
+  });
+
+  it('should drop malformed entries', () => {
+    const raw = JSON.stringify({
+      version: schemaVersion,
+      cached: {
+        page___window: { scrollX: 0, scrollY: 40 },
+        'page___#list': { scrollX: 'left', scrollY: 40 },
+        'page___#grid': null,
+      },
+      next: {},
+    });
+
+    expect(Object.keys(deserializeCache(raw)?.cached || {})).toEqual([
+      'page___window',
+    ]);
+  });
+
+  it.each([
+    ['invalid JSON', '{"cached":'],
+    ['a non-object payload', '[1, 2, 3]'],
+    ['an unknown shape', '{"positions":{}}'],
+    ['a future version', '{"version":99,"cached":{},"next":{}}'],
+  ])('should discard %s', (_, raw) => {
+    expect(deserializeCache(raw)).toBeNull();
+  });
+});
+
+describe('createCache migration', () => {
+  it('should move legacy payloads to the current key', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(
+      legacyKey,
+      JSON.stringify({
+        cached: { page___window: { scrollX: 0, scrollY: 40 } },
+        next: {},
+      })
+    );
+
+    const cache = createCache(storage);
+
+    expect(cache.state.cached['page___window']?.scrollY).toBe(40);
+    expect(storage.getItem(legacyKey)).toBeNull();
+    expect(storage.getItem(getStorageKeys().current)).toContain('"version":3');
+  });
+
+  it('should keep apps with different prefixes apart', () => {
+    const storage = createMemoryStorage();
+
+    createCache(storage, 'app-a').set({
+      cached: { page___window: { scrollX: 0, scrollY: 40 } },
+      next: {},
+    });
+
+    expect(createCache(storage, 'app-b').state.cached).toEqual({});
+    expect(createCache(storage, 'app-a').state.cached).not.toEqual({});
+  });
+
+  it('should not throw on corrupted payloads', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(getStorageKeys().current, 'not json');
+
+    expect(() => createCache(storage)).not.toThrow();
+    expect(createCache(storage).state).toEqual({ cached: {}, next: {} });
+  });
+});
@@ -0,0 +1,122 @@
+import { CacheEntry, CacheState, CacheValue, ScrollAnchor } from './shapes';
+
+/**
+ * Version of the persisted cache format
+ */
+export const schemaVersion = 3;
+
+/**
+ * Persisted cache payload
+ */
+export type PersistedCache = CacheState & { version: number };
+
+/**
+ * Upgrades a payload by one version, returns null if it cannot be upgraded
+ */
+export type CacheMigration = (payload: Record<string, unknown>) => unknown;
+
+// Migrations keyed by the version they upgrade from
+const migrations = new Map<number, CacheMigration>();
+
+/**
+ * Register a migration from the given version to the next one
+ */
+export function registerCacheMigration(
+  fromVersion: number,
+  migrate: CacheMigration
+): void {
+  migrations.set(fromVersion, migrate);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isScrollAnchor = (value: unknown): value is ScrollAnchor =>
+  isRecord(value) &&
+  typeof value['key'] === 'string' &&
+  Number.isFinite(value['offset']);
+
+const isCacheEntry = (value: unknown): value is CacheEntry =>
+  isRecord(value) &&
+  Number.isFinite(value['scrollX']) &&
+  Number.isFinite(value['scrollY']) &&
+  (value['timestamp'] === undefined || Number.isFinite(value['timestamp'])) &&
+  (value['anchor'] === undefined || isScrollAnchor(value['anchor'])) &&
+  (value['focus'] === undefined || typeof value['focus'] === 'string');
+
+// Keep only well-formed entries
+const validateEntries = (value: unknown): CacheValue => {
+  const entries: CacheValue = {};
+  if (!isRecord(value)) return entries;
+
+  for (const key in value) {
+    const entry = value[key];
+    if (isCacheEntry(entry)) {
+      entries[key] = entry;
+    }
+  }
+
+  return entries;
+};
+
+// v2 stored the bare cache state without a version
+registerCacheMigration(2, (payload) => ({
+  version: 3,
+  cached: validateEntries(payload['cached']),
+  next: {},
+}));
+
+// Detect the version of a payload, unversioned v2 payloads are recognized by shape
+const versionOf = (payload: Record<string, unknown>): number | null => {
+  if (typeof payload['version'] === 'number') return payload['version'];
+  if (isRecord(payload['cached']) && isRecord(payload['next'])) return 2;
+  return null;
+};
+
+/**
+ * Parse and migrate a persisted payload
+ * Unknown or malformed payloads are discarded by returning null
+ */
+export function deserializeCache(raw: string | null): CacheState | null {
+  if (!raw) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  while (isRecord(payload)) {
+    const version = versionOf(payload);
+
+    if (version === schemaVersion) {
+      if (!isRecord(payload['cached'])) return null;
+
+      // Tracked selectors are kept, their pending positions are not
+      const next: CacheValue = {};
+      if (isRecord(payload['next'])) {
+        for (const selector in payload['next']) {
+          next[selector] = { scrollX: NaN, scrollY: NaN };
+        }
+      }
+
+      return { cached: validateEntries(payload['cached']), next };
+    }
+
+    const migrate = version === null ? undefined : migrations.get(version);
+    if (!migrate) return null;
+
+    payload = migrate(payload);
+  }
+
+  return null;
+}
+
+/**
+ * Serialize the cache state with the current version
+ */
+export function serializeCache(state: CacheState): string {
+  const persisted: PersistedCache = { version: schemaVersion, ...state };
+  return JSON.stringify(persisted);
+}
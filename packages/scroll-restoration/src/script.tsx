@@ -0,0 +1,20 @@
+import {
+  getScrollRestorationScriptContent,
+  ScrollRestorationScriptOptions,
+} from './inline-script';
+
+/**
+ * Inline script restoring the window position before hydration
+ * Render it after the page content, next to ScrollRestoration
+ */
+export function ScrollRestorationScript(props: ScrollRestorationScriptOptions) {
+  return (
+    <script
+      nonce={props.nonce}
+      // The content is generated, options are serialized safely
+      dangerouslySetInnerHTML={{
+        __html: getScrollRestorationScriptContent(props),
+      }}
+    />
+  );
+}
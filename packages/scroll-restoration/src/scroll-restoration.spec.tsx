@@ -7,7 +7,9 @@ import {
   saveCurrentScrollPositions,
 } from './scroll-restoration';
 import { render } from '@testing-library/react';
-import { storageKey } from './constants';
+import { getStorageKeys } from './cache';
+
+const storageKey = getStorageKeys().legacy;
 
 // Mock sessionStorage
 const mockSessionStorage = (() => {
@@ -9,9 +9,64 @@ export type Location = {
   };
 };
 
+/**
+ * How a location was reached
+ */
+export type NavigationType = 'push' | 'replace' | 'pop' | 'reload';
+
+/**
+ * Listens for location changes and returns a cleanup function
+ * The navigation type is optional, unknown navigations always restore
+ * onBeforeNavigate saves the positions of the listening instance, call it
+ * before the location changes
+ */
+export type NavigationListener = (
+  onNavigate: (location: Location, type?: NavigationType) => void,
+  onBeforeNavigate: () => void
+) => () => void;
+
 export type NonNullableUpdater<T> = T | ((prev: T) => T);
 
-export type CacheValue = Record<string, { scrollX: number; scrollY: number }>;
+/**
+ * Axis restored for a scroller
+ */
+export type ScrollAxis = 'x' | 'y' | 'both';
+
+/**
+ * Element kept at the same offset from the top of its scroller
+ */
+export type ScrollAnchor = {
+  key: string;
+  offset: number;
+};
+
+export type CacheEntry = {
+  scrollX: number;
+  scrollY: number;
+
+  /**
+   * Last time the entry was saved or restored, used for expiry and eviction
+   */
+  timestamp?: number;
+
+  /**
+   * Custom serializable data restored by its owner instead of the pixel
+   * position, e.g. the first visible item of a virtualized list
+   */
+  payload?: unknown;
+
+  /**
+   * First visible element with a stable key when the entry was saved
+   */
+  anchor?: ScrollAnchor;
+
+  /**
+   * Selector of the element focused when the window entry was saved
+   */
+  focus?: string;
+};
+
+export type CacheValue = Record<string, CacheEntry>;
 export type CacheState = {
   cached: CacheValue;
   next: CacheValue;
@@ -20,9 +75,151 @@ export type CacheState = {
 export type Cache = {
   state: CacheState;
   set: (updater: NonNullableUpdater<CacheState>) => void;
+
+  /**
+   * Whether the persisted state has been loaded from storage
+   */
+  hydrated: boolean;
+
+  /**
+   * Load the persisted state, resolves once the cache can be restored from
+   */
+  hydrate: () => Promise<void>;
+
+  /**
+   * Start sharing entries with the other tabs, returns a function stopping it
+   * Sharing ends once every caller has stopped it
+   */
+  sync: () => () => void;
+};
+
+/**
+ * Storage adapter used to persist the scroll cache
+ * Methods may return promises for asynchronous backends
+ */
+export type ScrollStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
+
+export type CacheLimits = {
+  /**
+   * Maximum number of cached entries, least recently used locations are evicted first
+   */
+  maxEntries?: number;
+
+  /**
+   * Entries older than this many milliseconds are discarded
+   */
+  maxAgeMs?: number;
+
+  /**
+   * Maximum number of cached elements per location, most recent ones are kept
+   */
+  maxEntriesPerLocation?: number;
 };
 
-export type ScrollRestorationOptions = {
+/**
+ * Position of a scrolled element being saved or restored
+ */
+export type ScrollEventDetail = {
+  /**
+   * Key of the location, as returned by getKey
+   */
+  locationKey: string;
+
+  /**
+   * Selector of the element, 'window' for the window
+   */
+  selector: string;
+
+  scrollX: number;
+  scrollY: number;
+
+  /**
+   * Whether the element was found in the document
+   */
+  found: boolean;
+};
+
+/**
+ * Restore that did not reach its position: the element was not rendered, or
+ * content was still too short when retrying timed out
+ */
+export type ScrollRestoreFailedDetail = ScrollEventDetail & {
+  reason: 'not-found' | 'timeout';
+};
+
+/**
+ * Called before saving or restoring a position. Return false to cancel, or
+ * coordinates to use instead
+ */
+export type ScrollBeforeHook = (
+  detail: ScrollEventDetail
+) => false | Partial<Pick<ScrollEventDetail, 'scrollX' | 'scrollY'>> | void;
+
+/**
+ * Detail types of the window events dispatched around saves and restores
+ */
+export type ScrollRestorationEventMap = {
+  scrollRestorationBeforeSave: CustomEvent<ScrollEventDetail>;
+  scrollRestorationSaved: CustomEvent<ScrollEventDetail>;
+  scrollRestorationBeforeRestore: CustomEvent<ScrollEventDetail>;
+  scrollRestorationRestored: CustomEvent<ScrollEventDetail>;
+  scrollRestorationRestoreFailed: CustomEvent<ScrollRestoreFailedDetail>;
+};
+
+/**
+ * Structured record of a restoration step, passed to debug loggers
+ */
+export type ScrollDebugEvent = Partial<ScrollRestoreFailedDetail> & {
+  /**
+   * 'reset' is a navigation starting fresh instead of restoring
+   */
+  type: 'navigate' | 'save' | 'restore' | 'restore-failed' | 'reset';
+  locationKey: string;
+  navigationType?: NavigationType;
+  timestamp: number;
+};
+
+export type ScrollDebugLogger = (event: ScrollDebugEvent) => void;
+
+/**
+ * Restoration settings for the locations matching a pattern or predicate
+ */
+export type ScrollRestorationRule = {
+  /**
+   * Pathname pattern, e.g. '/checkout/*' or '/posts/:id', a regular
+   * expression tested against the pathname, or a predicate
+   */
+  match: string | RegExp | ((location: Location) => boolean);
+
+  /**
+   * 'restore' follows restoreOn, 'top' always starts at the top or the hash
+   * target, 'none' leaves positions untouched. Defaults to 'restore'
+   */
+  mode?: 'restore' | 'top' | 'none';
+
+  /**
+   * Scroll behavior on matching locations, overrides scrollBehavior and
+   * hashScrollBehavior
+   */
+  behavior?: ScrollToOptions['behavior'];
+
+  /**
+   * Offset kept above hash targets on matching locations, overrides hashOffset
+   */
+  offset?: number | (() => number);
+
+  /**
+   * Scrollers the mode applies to, 'window' or data-scroll-restoration-id
+   * values and selectors. Others are restored as usual. Defaults to all
+   */
+  containers?: string[];
+};
+
+export type ScrollRestorationOptions = CacheLimits & {
   /**
    * Function to generate a unique key for a location
    */
@@ -42,5 +239,227 @@ export type ScrollRestorationOptions = {
    * Optional function to listen for location changes
    * This should return a cleanup function
    */
-  navigationListener?: (onNavigate: (location: Location) => void) => () => void;
+  navigationListener?: NavigationListener;
+
+  /**
+   * Navigation types restoring saved positions, others scroll to top or to
+   * the hash target. Defaults to back/forward and reload navigations
+   */
+  restoreOn?:
+    | NavigationType[]
+    | ((type: NavigationType, location: Location) => boolean);
+
+  /**
+   * Offset in pixels kept above hash targets, e.g. the height of a sticky header
+   */
+  hashOffset?: number | (() => number);
+
+  /**
+   * Scroll behavior when scrolling to hash targets, defaults to scrollBehavior
+   */
+  hashScrollBehavior?: ScrollToOptions['behavior'];
+
+  /**
+   * Scroll to the hash target even when a saved position exists
+   */
+  preferHash?: boolean;
+
+  /**
+   * Per-location settings, the first rule matching a location applies
+   */
+  rules?: ScrollRestorationRule[];
+
+  /**
+   * Move focus after navigations: restoring navigations focus the element
+   * focused when leaving, others the hash target or focusSelector
+   */
+  manageFocus?: boolean;
+
+  /**
+   * Element focused by fresh navigations, defaults to the main landmark
+   */
+  focusSelector?: string;
+
+  /**
+   * Announce navigations in a live region, with the document title or the
+   * returned message
+   */
+  announceNavigation?: boolean | ((location: Location) => string);
+
+  /**
+   * Log restoration steps, to the console or to the given logger
+   */
+  debug?: boolean | ScrollDebugLogger;
+
+  /**
+   * Attributes identifying scrollable elements, checked after
+   * data-scroll-restoration-id and id, e.g. ['data-testid', 'aria-label']
+   */
+  identityAttributes?: string[];
+
+  /**
+   * Custom identity for an element, must return a selector matching it
+   * Return undefined to fall back to the structural path, invalid selectors
+   * fall back too
+   */
+  getElementKey?: (element: Element) => string | null | undefined;
+
+  /**
+   * Attribute holding stable keys of content elements, e.g. 'data-id'. When set,
+   * restores keep the first visible element at the offset it was saved at, so
+   * content added above it does not shift the page. Falls back to pixels when
+   * the element is gone
+   */
+  anchorAttribute?: string;
+
+  /**
+   * 'retry' keeps restoring while asynchronous content makes the page tall
+   * enough, 'immediate' restores once after render. Defaults to 'immediate'
+   */
+  restoreMode?: 'immediate' | 'retry';
+
+  /**
+   * Time in milliseconds restores wait for content or readiness, defaults to 3000
+   */
+  restoreTimeoutMs?: number;
+
+  /**
+   * Delay restores until the route is ready, either until the returned promise
+   * settles or, with 'manual', until markRouteReady() is called
+   */
+  ready?: 'manual' | ((location: Location) => Promise<unknown> | void);
+
+  /**
+   * Called before a position is saved, may cancel or change it
+   */
+  onBeforeSave?: ScrollBeforeHook;
+
+  /**
+   * Called after a position was saved
+   */
+  onSave?: (detail: ScrollEventDetail) => void;
+
+  /**
+   * Called before a position is restored, may cancel or change it
+   */
+  onBeforeRestore?: ScrollBeforeHook;
+
+  /**
+   * Called after a position was restored
+   */
+  onRestore?: (detail: ScrollEventDetail) => void;
+
+  /**
+   * Called when a saved position could not be restored
+   */
+  onRestoreFailed?: (detail: ScrollRestoreFailedDetail) => void;
+
+  /**
+   * Storage used to persist scroll positions, defaults to sessionStorage
+   */
+  storage?: ScrollStorage;
+
+  /**
+   * Prefix of the storage keys, lets several apps share one origin
+   */
+  storageKeyPrefix?: string;
+
+  /**
+   * Share positions with the other tabs of the origin through BroadcastChannel,
+   * or storage events where it is missing. New tabs start from their opener
+   */
+  sync?: boolean;
+};
+
+/**
+ * Options controlling how scrolled elements are identified
+ */
+export type ElementIdentityOptions = Pick<
+  ScrollRestorationOptions,
+  'identityAttributes' | 'getElementKey'
+>;
+
+/**
+ * Callbacks observing saves and restores
+ */
+export type ScrollRestorationCallbacks = Pick<
+  ScrollRestorationOptions,
+  | 'onBeforeSave'
+  | 'onSave'
+  | 'onBeforeRestore'
+  | 'onRestore'
+  | 'onRestoreFailed'
+>;
+
+/**
+ * Location source and navigation listener supplied by a router integration
+ */
+export type RouterAdapter = Required<
+  Pick<ScrollRestorationOptions, 'getCurrentLocation' | 'navigationListener'>
+>;
+
+export type ScrollRestorationInstanceOptions = Pick<
+  ScrollRestorationOptions,
+  'storage' | 'storageKeyPrefix' | 'sync'
+>;
+
+/**
+ * Detail of save requests sent by controllers, saved under the key when given
+ */
+export type ScrollSaveRequest = {
+  key?: string;
+};
+
+/**
+ * Positions to restore, all elements of the key unless an element or selector
+ * is given. The key defaults to the one of the current location
+ */
+export type ScrollRestoreTarget = {
+  key?: string;
+  element?: Element | null;
+  selector?: string;
+};
+
+/**
+ * Isolated scroll restoration state: cache, tracked elements and event names
+ */
+export type ScrollRestorationInstance = {
+  cache: Cache;
+
+  /**
+   * Elements already tracked since the last restore
+   */
+  scrolledElements: WeakSet<EventTarget>;
+
+  /**
+   * Whether scroll positions are currently not recorded, e.g. during animations
+   */
+  paused: boolean;
+
+  /**
+   * Window event names used to request saving and restoring
+   */
+  events: { save: string; restore: string };
+
+  /**
+   * Whether the instance also answers to the global save and restore events
+   */
+  shared: boolean;
+
+  /**
+   * Trigger scroll position saving for this instance
+   */
+  saveCurrentScrollPositions: () => void;
+
+  /**
+   * Trigger scroll position restoring for this instance
+   */
+  restoreScrollPositions: () => void;
+
+  /**
+   * Restore a key or element under the latest navigation of the started
+   * restorer, following its restoreOn, rules and hooks. Undefined while no
+   * restorer is started
+   */
+  restoreLate?: (target: ScrollRestoreTarget) => Promise<boolean>;
 };
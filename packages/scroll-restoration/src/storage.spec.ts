@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createLocalStorage,
+  createMemoryStorage,
+  createSessionStorage,
+} from './storage';
+import { createCache, getStorageKeys } from './cache';
+import { ScrollStorage } from './shapes';
+
+const legacyKey = getStorageKeys().legacy;
+
+describe('storage adapters', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.localStorage.clear();
+  });
+
+  it('should keep values in memory', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).toBe('value');
+
+    storage.removeItem('key');
+    expect(storage.getItem('key')).toBeNull();
+  });
+
+  it('should write through to sessionStorage', () => {
+    createSessionStorage().setItem('key', 'session');
+    expect(window.sessionStorage.getItem('key')).toBe('session');
+  });
+
+  it('should write through to localStorage', () => {
+    createLocalStorage().setItem('key', 'local');
+    expect(window.localStorage.getItem('key')).toBe('local');
+  });
+});
+
+describe('createCache', () => {
+  const persisted = {
+    cached: { page___window: { scrollX: 0, scrollY: 300 } },
+    next: {},
+  };
+
+  it('should hydrate synchronously from synchronous storages', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(legacyKey, JSON.stringify(persisted));
+
+    const cache = createCache(storage);
+
+    expect(cache.hydrated).toBe(true);
+    expect(cache.state.cached['page___window']).toEqual({
+      scrollX: 0,
+      scrollY: 300,
+    });
+  });
+
+  it('should hydrate asynchronous storages before restoring', async () => {
+    const memory = createMemoryStorage();
+    memory.setItem(legacyKey, JSON.stringify(persisted));
+    const storage: ScrollStorage = {
+      getItem: async (key) => memory.getItem(key),
+      setItem: async (key, value) => memory.setItem(key, value),
+      removeItem: async (key) => memory.removeItem(key),
+    };
+
+    const cache = createCache(storage);
+    expect(cache.hydrated).toBe(false);
+
+    // Entries written before hydration win over persisted ones
+    cache.set((c) => ({
+      ...c,
+      cached: { ...c.cached, other___window: { scrollX: 0, scrollY: 10 } },
+    }));
+
+    await cache.hydrate();
+
+    expect(cache.hydrated).toBe(true);
+    expect(Object.keys(cache.state.cached).sort()).toEqual([
+      'other___window',
+      'page___window',
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { ScrollStorage } from './shapes';
+
+/**
+ * In-memory storage, positions live as long as the page does
+ */
+export function createMemoryStorage(): ScrollStorage {
+  const store = new Map<string, string>();
+
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+  };
+}
+
+// Wraps a Web Storage area, falling back to memory when it is unavailable
+const createWebStorage = (
+  getStorage: () => Storage | undefined
+): ScrollStorage => {
+  const fallback = createMemoryStorage();
+
+  const resolve = (): Storage | undefined => {
+    if (typeof window === 'undefined') return undefined;
+    try {
+      return getStorage();
+    } catch {
+      // Accessing storage throws in sandboxed iframes and some privacy modes
+      return undefined;
+    }
+  };
+
+  return {
+    getItem: (key) => {
+      const storage = resolve();
+      return storage ? storage.getItem(key) : fallback.getItem(key);
+    },
+    setItem: (key, value) => {
+      const storage = resolve();
+      return storage
+        ? storage.setItem(key, value)
+        : fallback.setItem(key, value);
+    },
+    removeItem: (key) => {
+      const storage = resolve();
+      return storage ? storage.removeItem(key) : fallback.removeItem(key);
+    },
+  };
+};
+
+/**
+ * Storage backed by window.sessionStorage, scoped to the current tab
+ */
+export function createSessionStorage(): ScrollStorage {
+  return createWebStorage(() => window.sessionStorage);
+}
+
+/**
+ * Storage backed by window.localStorage, shared across tabs
+ */
+export function createLocalStorage(): ScrollStorage {
+  return createWebStorage(() => window.localStorage);
+}
+
+export type IndexedDBStorageOptions = {
+  /**
+   * Name of the database, defaults to 'll-scroll-restoration'
+   */
+  databaseName?: string;
+
+  /**
+   * Name of the object store, defaults to 'cache'
+   */
+  storeName?: string;
+};
+
+// Wrap an IDBRequest into a promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Asynchronous storage backed by IndexedDB
+ */
+export function createIndexedDBStorage(
+  options?: IndexedDBStorageOptions
+): ScrollStorage {
+  const databaseName = options?.databaseName || 'll-scroll-restoration';
+  const storeName = options?.storeName || 'cache';
+
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryStorage();
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      database = promisifyRequest(request);
+    }
+
+    return database;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    return promisifyRequest(
+      run(db.transaction(storeName, mode).objectStore(storeName))
+    );
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await withStore('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await withStore('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mergeCached, syncCache } from './sync';
+import { createCache } from './cache';
+import { createMemoryStorage } from './storage';
+import { serializeCache } from './schema';
+
+const storageKey = 'll-scroll-restoration-cache';
+
+// Wait for messages to be delivered to the other channels
+const waitForMessages = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('mergeCached', () => {
+  it('should keep the most recently saved entry', () => {
+    const local = {
+      a___window: { scrollX: 0, scrollY: 10, timestamp: 2 },
+      b___window: { scrollX: 0, scrollY: 20, timestamp: 1 },
+    };
+
+    expect(
+      mergeCached(local, {
+        a___window: { scrollX: 0, scrollY: 99, timestamp: 1 },
+        b___window: { scrollX: 0, scrollY: 40, timestamp: 3 },
+        c___window: { scrollX: 0, scrollY: 50, timestamp: 1 },
+      })
+    ).toEqual({
+      a___window: { scrollX: 0, scrollY: 10, timestamp: 2 },
+      b___window: { scrollX: 0, scrollY: 40, timestamp: 3 },
+      c___window: { scrollX: 0, scrollY: 50, timestamp: 1 },
+    });
+  });
+
+  it('should report when nothing changed', () => {
+    const local = { a___window: { scrollX: 0, scrollY: 10, timestamp: 2 } };
+
+    expect(mergeCached(local, local)).toBeNull();
+  });
+});
+
+describe('syncCache', () => {
+  const cleanups: Array<() => void> = [];
+
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+    vi.unstubAllGlobals();
+  });
+
+  const createTab = () => {
+    const cache = createCache(createMemoryStorage());
+    cleanups.push(syncCache(cache, storageKey));
+    return cache;
+  };
+
+  it('should share writes between tabs', async () => {
+    const first = createTab();
+    const second = createTab();
+
+    first.set((c) => ({
+      ...c,
+      cached: { a___window: { scrollX: 0, scrollY: 300, timestamp: 5 } },
+    }));
+    await waitForMessages();
+
+    expect(second.state.cached['a___window']).toMatchObject({ scrollY: 300 });
+
+    // Older writes do not overwrite newer entries
+    second.set((c) => ({
+      ...c,
+      cached: { a___window: { scrollX: 0, scrollY: 400, timestamp: 9 } },
+    }));
+    first.set((c) => ({
+      ...c,
+      cached: { a___window: { scrollX: 0, scrollY: 100, timestamp: 7 } },
+    }));
+    await waitForMessages();
+
+    expect(second.state.cached['a___window']).toMatchObject({ scrollY: 400 });
+    expect(first.state.cached['a___window']).toMatchObject({ scrollY: 400 });
+  });
+
+  it('should stop sharing once every caller of cache.sync has stopped', async () => {
+    const first = createCache(createMemoryStorage());
+    const stopFirst = first.sync();
+    const stopAgain = first.sync();
+    const second = createTab();
+    const write = (scrollY: number) =>
+      first.set((c) => ({
+        ...c,
+        cached: { a___window: { scrollX: 0, scrollY, timestamp: scrollY } },
+      }));
+
+    stopFirst();
+    stopFirst();
+    write(100);
+    await waitForMessages();
+    expect(second.state.cached['a___window']?.scrollY).toBe(100);
+
+    stopAgain();
+    write(200);
+    await waitForMessages();
+    expect(second.state.cached['a___window']?.scrollY).toBe(100);
+  });
+
+  it('should seed new tabs from open tabs', async () => {
+    const first = createTab();
+    first.set((c) => ({
+      ...c,
+      cached: { a___window: { scrollX: 0, scrollY: 300, timestamp: 5 } },
+    }));
+    await waitForMessages();
+
+    const second = createTab();
+    await waitForMessages();
+
+    expect(second.state.cached['a___window']).toMatchObject({ scrollY: 300 });
+  });
+
+  it('should seed new tabs from their opener', () => {
+    const payload = serializeCache({
+      cached: { a___window: { scrollX: 0, scrollY: 700, timestamp: 5 } },
+      next: {},
+    });
+    vi.stubGlobal('opener', {
+      sessionStorage: {
+        getItem: (key: string) => (key === storageKey ? payload : null),
+      },
+    });
+
+    const cache = createTab();
+
+    expect(cache.state.cached['a___window']).toMatchObject({ scrollY: 700 });
+  });
+
+  it('should fall back to storage events', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const cache = createTab();
+
+    cache.set((c) => ({
+      ...c,
+      cached: { a___window: { scrollX: 0, scrollY: 300, timestamp: 5 } },
+    }));
+    expect(setItem).toHaveBeenCalledWith(
+      `${storageKey}-sync`,
+      expect.stringContaining('update')
+    );
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: `${storageKey}-sync`,
+        newValue: JSON.stringify({
+          type: 'update',
+          source: 'other-tab',
+          sequence: 1,
+          payload: serializeCache({
+            cached: { b___window: { scrollX: 0, scrollY: 80, timestamp: 6 } },
+            next: {},
+          }),
+        }),
+      })
+    );
+
+    expect(cache.state.cached['b___window']).toMatchObject({ scrollY: 80 });
+    setItem.mockRestore();
+  });
+});
@@ -0,0 +1,151 @@
+import { Cache, CacheValue } from './shapes';
+import { deserializeCache, serializeCache } from './schema';
+
+/**
+ * Messages exchanged between tabs, payloads use the persisted format
+ */
+type SyncMessage = {
+  source: string;
+  sequence: number;
+} & ({ type: 'update'; payload: string } | { type: 'request' });
+
+type SyncChannel = {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+// Open a channel to the other tabs, storage events are the fallback where
+// BroadcastChannel is not available
+const openChannel = (
+  name: string,
+  onMessage: (message: SyncMessage) => void
+): SyncChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) =>
+      onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== name || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue));
+    } catch {
+      // Values written by something else are ignored
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        window.localStorage.setItem(name, JSON.stringify(message));
+      } catch {
+        // Tabs stay in sync at the next successful write
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+// Persisted payload of the opener, readable when it shares the origin
+const readOpener = (storageKey: string): string | null => {
+  try {
+    return window.opener?.sessionStorage.getItem(storageKey) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Merge entries of another tab, the most recently saved entry wins
+ * Returns null when nothing changed
+ */
+export const mergeCached = (
+  local: CacheValue,
+  incoming: CacheValue
+): CacheValue | null => {
+  let merged: CacheValue | null = null;
+
+  for (const cacheKey in incoming) {
+    const entry = incoming[cacheKey]!;
+    const current = local[cacheKey];
+    if (!current || (entry.timestamp || 0) > (current.timestamp || 0)) {
+      merged = merged || { ...local };
+      merged[cacheKey] = entry;
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Share the entries of a cache with the other tabs of the origin: writes are
+ * broadcast, received entries are merged by timestamp and new tabs start from
+ * their opener and the entries of open tabs. Returns a cleanup function
+ */
+export const syncCache = (cache: Cache, storageKey: string): (() => void) => {
+  if (typeof window === 'undefined') return () => undefined;
+
+  const source = Math.random().toString(36).slice(2);
+  const set = cache.set;
+  let sequence = 0;
+
+  // Merge without broadcasting the entries back
+  const merge = (payload: string | null) => {
+    const incoming = deserializeCache(payload);
+    if (!incoming) return;
+
+    const merged = mergeCached(cache.state.cached, incoming.cached);
+    if (merged) {
+      set((c) => ({ ...c, cached: merged }));
+    }
+  };
+
+  const post = (cached: CacheValue) =>
+    channel.post({
+      type: 'update',
+      source,
+      sequence: ++sequence,
+      payload: serializeCache({ cached, next: {} }),
+    });
+
+  const channel = openChannel(`${storageKey}-sync`, (message) => {
+    if (message.source === source) return;
+
+    if (message.type === 'request') {
+      post(cache.state.cached);
+    } else {
+      merge(message.payload);
+    }
+  });
+
+  // Broadcast the entries changed by a write
+  cache.set = (updater) => {
+    const previous = cache.state.cached;
+    set(updater);
+
+    const changed: CacheValue = {};
+    let hasChanges = false;
+    for (const cacheKey in cache.state.cached) {
+      if (cache.state.cached[cacheKey] !== previous[cacheKey]) {
+        changed[cacheKey] = cache.state.cached[cacheKey]!;
+        hasChanges = true;
+      }
+    }
+    if (hasChanges) post(changed);
+  };
+
+  // New tabs start from their opener, then from the tabs already open
+  merge(readOpener(storageKey));
+  channel.post({ type: 'request', source, sequence: ++sequence });
+
+  return () => {
+    cache.set = set;
+    channel.close();
+  };
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render } from '@testing-library/react';
+import * as React from 'react';
+import { useVirtualScrollRestoration } from './virtual';
+import { ScrollRestoration } from './scroll-restoration';
+import { createScrollRestoration, ScrollRestorationProvider } from './instance';
+import { createMemoryStorage } from './storage';
+import { createScrollRestorer } from './restorer';
+import { defaultGetCurrentLocation } from './navigation';
+import { NavigationListener, ScrollRestorationInstance } from './shapes';
+
+type Anchor = { index: number; offset: number };
+
+const cacheKey = 'page___virtual:feed';
+const getKey = () => 'page';
+
+describe('useVirtualScrollRestoration', () => {
+  let instance: ScrollRestorationInstance;
+  let anchor: Anchor | undefined;
+  let restoreAnchor: ReturnType<typeof vi.fn>;
+
+  function Feed() {
+    useVirtualScrollRestoration<Anchor>({
+      id: 'feed',
+      getKey,
+      getAnchor: () => anchor,
+      restoreAnchor,
+    });
+    return null;
+  }
+
+  const renderFeed = (children: React.ReactNode = <Feed />) =>
+    render(
+      <ScrollRestorationProvider instance={instance}>
+        {children}
+      </ScrollRestorationProvider>
+    );
+
+  beforeEach(() => {
+    instance = createScrollRestoration({ storage: createMemoryStorage() });
+    anchor = undefined;
+    restoreAnchor = vi.fn();
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should restore the saved anchor on mount', () => {
+    instance.cache.set({
+      cached: {
+        [cacheKey]: {
+          scrollX: 0,
+          scrollY: 0,
+          payload: { index: 7, offset: 3 },
+        },
+      },
+      next: {},
+    });
+
+    renderFeed();
+
+    expect(restoreAnchor).toHaveBeenCalledWith({ index: 7, offset: 3 });
+  });
+
+  it('should save the anchor with the other positions', () => {
+    renderFeed();
+
+    anchor = { index: 12, offset: -8 };
+    act(() => instance.saveCurrentScrollPositions());
+
+    expect(instance.cache.state.cached[cacheKey]).toMatchObject({
+      payload: { index: 12, offset: -8 },
+    });
+  });
+
+  it('should save the anchor on unmount', () => {
+    const { unmount } = renderFeed();
+
+    anchor = { index: 3, offset: 0 };
+    unmount();
+
+    expect(instance.cache.state.cached[cacheKey]?.payload).toEqual(anchor);
+  });
+
+  it('should not be restored as a pixel position', async () => {
+    instance.cache.set({
+      cached: {
+        [cacheKey]: {
+          scrollX: 0,
+          scrollY: 0,
+          payload: { index: 7, offset: 3 },
+        },
+      },
+      next: {},
+    });
+    renderFeed(
+      <>
+        <ScrollRestoration getKey={getKey} />
+        <Feed />
+      </>
+    );
+
+    const querySelector = vi.spyOn(document, 'querySelector');
+
+    act(() => instance.restoreScrollPositions());
+    // The started restorer approves the mount restore asynchronously
+    await act(() => Promise.resolve());
+
+    expect(querySelector).not.toHaveBeenCalledWith('virtual:feed');
+    expect(restoreAnchor).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only restore the anchor when the navigation restores', async () => {
+    let onNavigate: Parameters<NavigationListener>[0] = () => undefined;
+    const restorer = createScrollRestorer({
+      instance,
+      getKey,
+      navigationListener: (listener) => {
+        onNavigate = listener;
+        return () => undefined;
+      },
+    });
+    restorer.start();
+    const saved = {
+      cached: {
+        [cacheKey]: {
+          scrollX: 0,
+          scrollY: 0,
+          payload: { index: 7, offset: 3 },
+          timestamp: Date.now(),
+        },
+      },
+      next: {},
+    };
+
+    onNavigate(defaultGetCurrentLocation(), 'push');
+    instance.cache.set(saved);
+    const { unmount } = renderFeed();
+    await act(() => Promise.resolve());
+    expect(restoreAnchor).not.toHaveBeenCalled();
+    unmount();
+
+    onNavigate(defaultGetCurrentLocation(), 'pop');
+    instance.cache.set(saved);
+    renderFeed();
+    await act(() => Promise.resolve());
+    expect(restoreAnchor).toHaveBeenCalledWith({ index: 7, offset: 3 });
+
+    restorer.stop();
+  });
+});
@@ -0,0 +1,121 @@
+import * as React from 'react';
+import { ScrollRestorationOptions } from './shapes';
+import { delimiter } from './constants';
+import { getInstanceEvents } from './events';
+import { useScrollRestorationInstance } from './instance';
+import { listenForPageHide } from './lifecycle';
+import { defaultGetCurrentLocation, defaultGetKey } from './navigation';
+
+export type VirtualScrollRestorationOptions<T> = Pick<
+  ScrollRestorationOptions,
+  'getKey' | 'getCurrentLocation' | 'storage' | 'storageKeyPrefix'
+> & {
+  /**
+   * Identity of the list, unique per location
+   */
+  id: string;
+
+  /**
+   * Read the current anchor, e.g. the index of the first visible item and
+   * its offset. Must be serializable, undefined skips saving
+   */
+  getAnchor: () => T | undefined;
+
+  /**
+   * Scroll the list back to a saved anchor
+   */
+  restoreAnchor: (anchor: T) => void;
+};
+
+/**
+ * Hook for scroll restoration of virtualized lists through anchors instead of
+ * pixels, as rows are measured lazily and pixel offsets change after remounts
+ * Anchors share the cache and keying of useScrollRestoration
+ */
+export function useVirtualScrollRestoration<T>(
+  options: VirtualScrollRestorationOptions<T>
+) {
+  const instance = useScrollRestorationInstance(options);
+  const cache = instance.cache;
+  const getKey = options.getKey || defaultGetKey;
+  const getCurrentLocation =
+    options.getCurrentLocation || defaultGetCurrentLocation;
+
+  // Entries of virtual lists are never looked up as selectors
+  const locationKey = getKey(getCurrentLocation());
+  const selector = `virtual:${options.id}`;
+  const cacheKey = [locationKey, selector].join(delimiter);
+
+  // The location being rendered and the latest callbacks, saves before a
+  // navigation happen before the list renders the new location
+  const cacheKeyRef = React.useRef(cacheKey);
+  cacheKeyRef.current = cacheKey;
+  const callbacksRef = React.useRef(options);
+  callbacksRef.current = options;
+
+  const saveAnchor = React.useCallback(() => {
+    const anchor = callbacksRef.current.getAnchor();
+    if (anchor === undefined) return;
+
+    cache.set((c) => ({
+      ...c,
+      cached: {
+        ...c.cached,
+        [cacheKeyRef.current]: {
+          scrollX: 0,
+          scrollY: 0,
+          payload: anchor,
+          timestamp: Date.now(),
+        },
+      },
+    }));
+  }, [cache]);
+
+  // Save along with the other positions, when the page is hidden and on unmount
+  React.useEffect(() => {
+    const saveEvents = getInstanceEvents(instance, 'save');
+    saveEvents.forEach((type) => window.addEventListener(type, saveAnchor));
+    const cleanupPageHide = listenForPageHide(saveAnchor);
+
+    return () => {
+      saveEvents.forEach((type) =>
+        window.removeEventListener(type, saveAnchor)
+      );
+      cleanupPageHide();
+      saveAnchor();
+    };
+  }, [instance, saveAnchor]);
+
+  // Restore on mount and whenever the list shows another location
+  React.useEffect(() => {
+    let active = true;
+
+    const restore = () => {
+      const entry = cache.state.cached[cacheKey];
+      if (!active || entry?.payload === undefined) return;
+
+      const restoreAnchor = () =>
+        callbacksRef.current.restoreAnchor(entry.payload as T);
+
+      // A started restorer decides, fresh navigations start at the top
+      if (instance.restoreLate) {
+        instance.restoreLate({ key: locationKey, selector }).then((allowed) => {
+          if (active && allowed) restoreAnchor();
+        });
+      } else {
+        restoreAnchor();
+      }
+    };
+
+    // Asynchronous storages have to be loaded first
+    if (cache.hydrated) {
+      restore();
+    } else {
+      cache.hydrate().then(restore);
+    }
+
+    return () => {
+      active = false;
+    };
+  }, [instance, cache, locationKey, selector, cacheKey]);
+}
@@ -30,17 +30,38 @@ export default defineConfig({
       transformMixedEsModules: true,
     },
     lib: {
-      // Could also be a dictionary or array of multiple entry points.
-      entry: 'src/index.ts',
+      // Router adapters are published as sub-path entry points.
+      entry: {
+        index: 'src/index.ts',
+        'react-router': 'src/adapters/react-router.tsx',
+        'tanstack-router': 'src/adapters/tanstack-router.tsx',
+        next: 'src/adapters/next.tsx',
+        // The core and its bindings work without React.
+        core: 'src/core.ts',
+        vue: 'src/adapters/vue.ts',
+        svelte: 'src/adapters/svelte.ts',
+      },
       name: '@lonli-lokli/scroll-restoration',
-      fileName: 'index',
+      fileName: (_format, entryName) => `${entryName}.js`,
       // Change this to the formats you want to support.
       // Don't forget to update your package.json as well.
       formats: ['es'],
     },
     rollupOptions: {
       // External packages that should not be bundled into your library.
-      external: ['react', 'react-dom', 'react/jsx-runtime'],
+      external: [
+        'react',
+        'react-dom',
+        'react/jsx-runtime',
+        'react-router',
+        '@tanstack/react-router',
+        /^next(\/.*)?$/,
+      ],
+      output: {
+        // Directives are dropped while bundling, the Next.js entry needs it back
+        banner: (chunk) =>
+          chunk.isEntry && chunk.name === 'next' ? "'use client';" : '',
+      },
     },
   },
   test: {